@@ -1,18 +1,94 @@
-import React from 'react';
-import { RadialMenu, RadialMenuItem } from './components/RadialMenu';
-import { Home, Settings, User, MessageSquare, Share2, ThumbsUp, Star } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RadialMenu, RadialMenuHandle, RadialMenuItem } from './components/RadialMenu';
+import { RadialMenuThemeProvider } from './theme/RadialMenuThemeProvider';
+import { RadialMenuProvider } from './manager/RadialMenuProvider';
+import { darkTheme } from './theme/theme';
+import { useTelemetryAdapter } from './hooks/useTelemetryAdapter';
+import type { TelemetryEvent } from './analytics/telemetry';
+import { useMenuDefinition } from './hooks/useMenuDefinition';
+import { createCommandRegistry, createIconRegistry } from './definitions/registries';
+import contextMenuDefinition from './menus/contextMenu.json';
+import { Home, Settings, User, MessageSquare, Share2, ThumbsUp, Star, Mail, Link, Copy, VolumeX, RefreshCw, Trash2, Sun, Moon, SlidersHorizontal, LayoutGrid, FileX } from 'lucide-react';
+
+// The context menu is loaded from JSON; its icons and commands are looked up here by name and id
+const icons = createIconRegistry({ Copy, Link, ThumbsUp, Star });
+const commands = createCommandRegistry({
+  log: (name, { context }) => console.log(`${name} clicked at`, context?.x, context?.y, 'on', context?.target),
+});
+
+// Fails every other time so both the spinner and the error state can be seen
+let syncAttempts = 0;
+const fakeSync = () => new Promise<void>((resolve, reject) => {
+  syncAttempts += 1;
+  const shouldFail = syncAttempts % 2 === 0;
+  setTimeout(() => (shouldFail ? reject(new Error('Sync failed, try again')) : resolve()), 1500);
+});
+
+// Stands in for a real analytics endpoint
+const logTelemetry = (events: TelemetryEvent[]) => console.table(events);
 
 const App: React.FC = () => {
+  const contextPanelRef = useRef<HTMLDivElement>(null);
+  const mainMenuRef = useRef<RadialMenuHandle>(null);
+  const contextTargets = useMemo(() => [contextPanelRef], []);
+  const [isMuted, setIsMuted] = useState(false);
+  const [colorScheme, setColorScheme] = useState<'light' | 'dark'>('light');
+  const [drafts, setDrafts] = useState(3);
+  const telemetry = useTelemetryAdapter<RadialMenuItem>(logTelemetry, { menuId: 'main' });
+
+  // The drafts a discard chosen from this render's items removes, which its undo brings back
+  const discardedDrafts = drafts;
   const menuItems: RadialMenuItem[] = [
-    { id: 'home', icon: Home, label: 'Home', description: 'Go to Home Page', action: () => console.log('Home clicked') },
-    { id: 'settings', icon: Settings, label: 'Settings', description: 'Adjust Application Settings', action: () => console.log('Settings clicked') },
+    { id: 'home', icon: Home, label: 'Home', description: 'Go to Home Page', shortcut: 'Alt+H', action: () => console.log('Home clicked') },
+    {
+      id: 'settings', icon: Settings, label: 'Settings', description: 'Adjust Application Settings',
+      children: [
+        { id: 'settings-preferences', icon: SlidersHorizontal, label: 'Preferences', description: 'Adjust Application Settings', action: () => console.log('Settings clicked') },
+        // Has a shortcut so the menu can still be customized after Settings has been hidden
+        { id: 'settings-customize', icon: LayoutGrid, label: 'Customize', description: 'Rearrange, Hide and Pin Items', shortcut: 'Alt+E', closeOnSelect: false, action: () => mainMenuRef.current?.startEditing() },
+      ],
+    },
     { id: 'profile', icon: User, label: 'Profile', description: 'View User Profile', action: () => console.log('Profile clicked') },
-    { id: 'messages', icon: MessageSquare, label: 'Messages', description: 'Check New Messages', action: () => console.log('Messages clicked') },
-    { id: 'share', icon: Share2, label: 'Share', description: 'Share This Content', action: () => console.log('Share clicked') },
+    { id: 'messages', icon: MessageSquare, label: 'Messages', description: 'Check New Messages', badge: 3, action: () => console.log('Messages clicked') },
+    {
+      id: 'share', icon: Share2, label: 'Share', description: 'Share This Content',
+      children: [
+        { id: 'share-email', icon: Mail, label: 'Email', description: 'Send by Email', action: () => console.log('Share by email clicked') },
+        { id: 'share-link', icon: Link, label: 'Link', description: 'Create a Share Link', action: () => console.log('Share link clicked') },
+        { id: 'share-copy', icon: Copy, label: 'Copy', description: 'Copy to Clipboard', action: () => console.log('Copy clicked') },
+      ],
+    },
     { id: 'like', icon: ThumbsUp, label: 'Like', description: 'Like This Item Now! It is truly amazing and you will love it because it is great.', action: () => console.log('Like clicked') },
     { id: 'favorite', icon: Star, label: 'Favorite', description: 'Add to Your Favorites', action: () => console.log('Favorite clicked') },
+    { id: 'mute', icon: VolumeX, label: 'Mute', description: 'Mute Notifications', type: 'checkbox', shortcut: 'Alt+M', checked: isMuted, onCheckedChange: setIsMuted },
+    {
+      id: 'appearance', icon: Sun, label: 'Appearance', description: 'Choose a Color Scheme',
+      children: [
+        { id: 'appearance-light', icon: Sun, label: 'Light', type: 'radio', group: 'scheme', checked: colorScheme === 'light', onCheckedChange: () => setColorScheme('light') },
+        { id: 'appearance-dark', icon: Moon, label: 'Dark', type: 'radio', group: 'scheme', checked: colorScheme === 'dark', onCheckedChange: () => setColorScheme('dark') },
+      ],
+    },
+    { id: 'sync', icon: RefreshCw, label: 'Sync', description: 'Sync With the Server', shortcut: 'Mod+Shift+Y', action: fakeSync },
+    {
+      id: 'delete', icon: Trash2, label: 'Delete', description: 'Delete a Draft', badge: drafts || undefined,
+      disabled: drafts === 0, disabledReason: 'Nothing selected to delete',
+      confirm: 'hold', action: () => setDrafts(count => count - 1),
+      undo: () => setDrafts(count => count + 1), undoMessage: 'Draft deleted',
+    },
+    {
+      id: 'discard', icon: FileX, label: 'Discard', description: 'Discard All Drafts', disabled: drafts === 0,
+      confirm: { mode: 'sub-ring', message: 'Discard all drafts?', confirmLabel: 'Discard', cancelLabel: 'Keep' },
+      action: () => setDrafts(0),
+      // Adds back what was discarded, keeping any drafts created since
+      undo: () => setDrafts(count => count + discardedDrafts), undoMessage: 'Drafts discarded',
+    },
   ];
 
+  const { items: contextMenuItems, issues: contextMenuIssues } = useMenuDefinition(contextMenuDefinition, { icons, commands });
+  useEffect(() => {
+    if (contextMenuIssues.length > 0) console.error('Invalid context menu definition', contextMenuIssues);
+  }, [contextMenuIssues]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-700 flex flex-col items-center justify-center text-white relative overflow-hidden">
       <div className="absolute top-0 left-0 w-full h-full opacity-10">
@@ -37,14 +113,46 @@ const App: React.FC = () => {
         <p className="text-sm text-slate-400 mt-2">Hover over items to see them enlarge and show descriptions.</p>
       </div>
 
-      <RadialMenu 
-        items={menuItems} 
-        orbitRadius={120} 
-        itemSize={48} 
-        mainButtonSize={64}
-        itemIconSize={24} 
-        hoverScale={2.0} 
-      />
+      <div
+        ref={contextPanelRef}
+        className="relative z-10 w-80 h-40 rounded-lg border border-dashed border-slate-400 flex items-center justify-center text-slate-300 text-sm select-none"
+      >
+        Right-click or long-press here for a context ring
+      </div>
+
+      {/* One menu open at a time; each ring keeps clear of the other menu's button */}
+      <RadialMenuProvider>
+        <RadialMenuThemeProvider theme={darkTheme}>
+          <RadialMenu
+            items={contextMenuItems}
+            mode="context"
+            contextTargets={contextTargets}
+            itemShape="wedge"
+            ariaLabel="Panel actions"
+          />
+        </RadialMenuThemeProvider>
+
+        <RadialMenu 
+          ref={mainMenuRef}
+          items={menuItems} 
+          orbitRadius={120} 
+          itemSize={48} 
+          mainButtonSize={64}
+          itemIconSize={24} 
+          hoverScale={2.0} 
+          animation={{ preset: 'fly-out', stagger: 30, spring: true }}
+          labelPlacement="outside"
+          hotkey={{ shortcut: 'Mod+K', openAt: 'pointer' }}
+          mnemonics
+          snapping={{ edges: true }}
+          inertia
+          persistPosition="radial-menu-demo-position"
+          persistPreferences="radial-menu-demo-preferences"
+          adaptiveOrder
+          overflow="pages"
+          {...telemetry.callbacks}
+        />
+      </RadialMenuProvider>
 
       <footer className="absolute bottom-4 text-center w-full text-slate-400 text-sm z-10">
         Built with React, Tailwind CSS, and Lucide Icons.
@@ -0,0 +1,39 @@
+import type { Point } from '../utils/pointer';
+
+// 'toggle' is the main button (or a cancelled marking gesture); 'api' is the ref handle or a controlling parent
+// 'other-menu' is another menu under the same RadialMenuProvider opening while only one may be open
+export type RadialMenuCloseReason = 'item' | 'outside-click' | 'escape' | 'toggle' | 'api' | 'other-menu';
+
+// 'shortcut' is an item's own shortcut, which also works while the menu is closed
+export type RadialMenuInputMethod = 'pointer' | 'keyboard' | 'marking' | 'shortcut';
+
+export interface RadialMenuCloseEvent {
+  reason: RadialMenuCloseReason;
+  openDuration: number; // ms the menu was open
+}
+
+export interface RadialMenuItemHoverEvent<Item> {
+  item: Item;
+  dwellTime: number; // ms the item stayed hovered or focused; reported when the hover ends
+}
+
+export interface RadialMenuItemSelectEvent<Item> {
+  item: Item;
+  path: string[]; // Ids of the item's parents, outermost first
+  inputMethod: RadialMenuInputMethod;
+  timeToSelect: number; // ms since the menu opened
+}
+
+export interface RadialMenuDragEvent {
+  position: Point; // Center of the main button; for onDragEnd, where it comes to rest after inertia and snapping
+}
+
+// Observers only: they can't change what the menu does, and are safe to wire straight into analytics
+export interface RadialMenuCallbacks<Item> {
+  onOpen?: () => void;
+  onClose?: (event: RadialMenuCloseEvent) => void;
+  onItemHover?: (event: RadialMenuItemHoverEvent<Item>) => void;
+  onItemSelect?: (event: RadialMenuItemSelectEvent<Item>) => void; // Leaf items only; opening a submenu is navigation
+  onDragStart?: (event: RadialMenuDragEvent) => void; // Once the pointer moves past the drag threshold
+  onDragEnd?: (event: RadialMenuDragEvent) => void;
+}
@@ -0,0 +1,106 @@
+import type { Point } from '../utils/pointer';
+import type { MenuTreeNode } from '../core/menuTree';
+import type { RadialMenuCallbacks, RadialMenuCloseReason, RadialMenuInputMethod } from './events';
+
+// Plain, serializable records: items are reduced to their id and label
+export type TelemetryEvent = { timestamp: number; menuId?: string } & (
+  | { type: 'open' }
+  | { type: 'close'; reason: RadialMenuCloseReason; openDuration: number }
+  | { type: 'hover'; itemId: string; label: string; dwellTime: number }
+  | { type: 'select'; itemId: string; label: string; path: string[]; inputMethod: RadialMenuInputMethod; timeToSelect: number }
+  | { type: 'dragStart'; position: Point }
+  | { type: 'dragEnd'; position: Point }
+);
+
+export type TelemetrySink = (events: TelemetryEvent[]) => void | Promise<unknown>;
+
+export interface TelemetryOptions {
+  menuId?: string; // Tags every event, to tell several menus apart in one sink
+  batchSize?: number; // A full batch is sent right away
+  flushInterval?: number; // ms a partial batch waits before it is sent
+  minHoverDwell?: number; // ms; shorter hovers are the pointer passing over an item and aren't recorded
+  onError?: (error: unknown, events: TelemetryEvent[]) => void; // Failed batches are dropped otherwise
+}
+
+export interface TelemetryAdapter<Item extends MenuTreeNode<Item>> {
+  callbacks: Required<RadialMenuCallbacks<Item>>; // Spread onto <RadialMenu>
+  flush: () => void;
+}
+
+export const DEFAULT_TELEMETRY_BATCH_SIZE = 20;
+export const DEFAULT_TELEMETRY_FLUSH_INTERVAL = 5000;
+export const DEFAULT_MIN_HOVER_DWELL = 150;
+
+// Turns the menu's callbacks into batched telemetry. Queued events are also sent when the page is hidden, since
+// a closing tab gets no further timer callbacks.
+export function createTelemetryAdapter<Item extends MenuTreeNode<Item>>(
+  sink: TelemetrySink,
+  {
+    menuId,
+    batchSize = DEFAULT_TELEMETRY_BATCH_SIZE,
+    flushInterval = DEFAULT_TELEMETRY_FLUSH_INTERVAL,
+    minHoverDwell = DEFAULT_MIN_HOVER_DWELL,
+    onError,
+  }: TelemetryOptions = {},
+): TelemetryAdapter<Item> {
+  let queue: TelemetryEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+
+  // The page listener is only attached while something is queued, so an adapter that is simply dropped leaks nothing
+  const setPending = (isPending: boolean) => {
+    if (typeof document === 'undefined') return;
+    if (isPending) {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    } else {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+  };
+
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+    const events = queue;
+    queue = [];
+    setPending(false);
+    // Telemetry must never break the menu, so a throwing or rejecting sink is contained here
+    try {
+      Promise.resolve(sink(events)).catch(error => onError?.(error, events));
+    } catch (error) {
+      onError?.(error, events);
+    }
+  };
+
+  const record = (event: TelemetryEvent) => {
+    queue.push(menuId === undefined ? event : { ...event, menuId });
+    if (queue.length >= batchSize) {
+      flush();
+    } else if (timer === null) {
+      setPending(true);
+      timer = setTimeout(flush, flushInterval);
+    }
+  };
+
+  return {
+    callbacks: {
+      onOpen: () => record({ type: 'open', timestamp: Date.now() }),
+      onClose: ({ reason, openDuration }) => record({ type: 'close', timestamp: Date.now(), reason, openDuration }),
+      onItemHover: ({ item, dwellTime }) => {
+        if (dwellTime < minHoverDwell) return;
+        record({ type: 'hover', timestamp: Date.now(), itemId: item.id, label: item.label, dwellTime });
+      },
+      onItemSelect: ({ item, path, inputMethod, timeToSelect }) => record({
+        type: 'select', timestamp: Date.now(), itemId: item.id, label: item.label, path, inputMethod, timeToSelect,
+      }),
+      onDragStart: ({ position }) => record({ type: 'dragStart', timestamp: Date.now(), position }),
+      onDragEnd: ({ position }) => record({ type: 'dragEnd', timestamp: Date.now(), position }),
+    },
+    flush,
+  };
+}
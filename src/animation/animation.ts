@@ -0,0 +1,86 @@
+import type { Point } from '../utils/pointer';
+
+// 'fly-out' moves items out from the center, 'pop' grows them in place (the original look), 'fade' only fades
+export type AnimationPreset = 'fly-out' | 'pop' | 'fade' | 'none';
+
+export interface SpringOptions {
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+}
+
+export interface RadialMenuAnimation {
+  preset?: AnimationPreset;
+  stagger?: number; // ms between consecutive items, in angular order; exits run in reverse order
+  spring?: boolean | SpringOptions; // The ring trails the main button on a spring while it's dragged
+  reducedMotion?: 'system' | 'always' | 'never'; // 'system' follows prefers-reduced-motion
+  onEnterStart?: () => void;
+  onEnterComplete?: () => void;
+  onExitStart?: () => void;
+  onExitComplete?: () => void;
+}
+
+export interface ResolvedAnimation {
+  preset: AnimationPreset;
+  stagger: number;
+  spring: Required<SpringOptions> | null;
+}
+
+export const DEFAULT_ANIMATION_PRESET: AnimationPreset = 'fly-out';
+export const DEFAULT_STAGGER = 25;
+export const DEFAULT_SPRING: Required<SpringOptions> = { stiffness: 170, damping: 22, mass: 1 };
+
+const POP_HIDDEN_SCALE = 0.5;
+const FLY_OUT_HIDDEN_SCALE = 0.3;
+
+// Applies the defaults, and swaps anything that moves for a plain fade when reduced motion is requested
+export function resolveAnimation(animation: RadialMenuAnimation | undefined, prefersReducedMotion: boolean): ResolvedAnimation {
+  const preset = animation?.preset ?? DEFAULT_ANIMATION_PRESET;
+  const reducedMotion = animation?.reducedMotion ?? 'system';
+  if (reducedMotion === 'always' || (reducedMotion === 'system' && prefersReducedMotion)) {
+    return { preset: preset === 'none' ? 'none' : 'fade', stagger: 0, spring: null };
+  }
+
+  const spring = animation?.spring ?? false;
+  return {
+    preset,
+    stagger: preset === 'none' ? 0 : Math.max(0, animation?.stagger ?? DEFAULT_STAGGER),
+    spring: spring === false ? null : { ...DEFAULT_SPRING, ...(spring === true ? {} : spring) },
+  };
+}
+
+// Time from the first item starting to move to the last one settling
+export function getRingAnimationDuration(animation: ResolvedAnimation, duration: number, numItems: number): number {
+  if (animation.preset === 'none') return 0;
+  return duration + animation.stagger * Math.max(numItems - 1, 0);
+}
+
+// Transform and opacity of an item at `offset` from the ring center; hidden items sit where they enter from
+export function getItemMotion(
+  preset: AnimationPreset,
+  offset: Point,
+  isShown: boolean,
+  scale: number,
+): { transform: string; opacity: number } {
+  if (isShown || preset === 'none') {
+    return { transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`, opacity: isShown ? 1 : 0 };
+  }
+  switch (preset) {
+    case 'fly-out':
+      return { transform: `translate(0px, 0px) scale(${FLY_OUT_HIDDEN_SCALE})`, opacity: 0 };
+    case 'pop':
+      return { transform: `translate(${offset.x}px, ${offset.y}px) scale(${POP_HIDDEN_SCALE})`, opacity: 0 };
+    case 'fade':
+      return { transform: `translate(${offset.x}px, ${offset.y}px) scale(1)`, opacity: 0 };
+  }
+}
+
+// Rank of each position when walking the ring clockwise by angle, used to order the stagger
+export function getAngularRanks(positions: { angle: number }[]): number[] {
+  const ranks = new Array<number>(positions.length);
+  positions
+    .map((position, index) => ({ angle: position.angle, index }))
+    .sort((a, b) => a.angle - b.angle)
+    .forEach((entry, rank) => { ranks[entry.index] = rank; });
+  return ranks;
+}
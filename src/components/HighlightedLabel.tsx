@@ -0,0 +1,16 @@
+// A label with the characters matched by a search highlighted. Like fuzzyMatch, it counts code points, so emoji and
+// other characters outside the BMP line up with the matched indices.
+export function HighlightedLabel({ label, matchedIndices }: { label: string; matchedIndices: number[] }) {
+  const matched = new Set(matchedIndices);
+  const runs: { text: string; isMatch: boolean }[] = [];
+  Array.from(label).forEach((char, index) => {
+    const isMatch = matched.has(index);
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && lastRun.isMatch === isMatch) {
+      lastRun.text += char;
+    } else {
+      runs.push({ text: char, isMatch });
+    }
+  });
+  return <>{runs.map((run, index) => (run.isMatch ? <mark key={index}>{run.text}</mark> : <span key={index}>{run.text}</span>))}</>;
+}
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+
+interface MenuSearchFieldProps {
+  query: string;
+  menuLabel: string;
+  menuId: string; // The ring the results are shown in
+  resultCount: number | null; // Null until there is something to search for
+  style: React.CSSProperties;
+  onQueryChange: (query: string) => void;
+  onSubmit: () => void; // Enter picks the best match
+  onFocusRing: () => void; // The up and down arrows move into the results
+}
+
+// The field that appears once the user types into an open ring. It takes focus when it appears, so the rest of
+// the typing goes into it, and announces how many items match.
+export function MenuSearchField({
+  query, menuLabel, menuId, resultCount, style, onQueryChange, onSubmit, onFocusRing,
+}: MenuSearchFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onSubmit();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      onFocusRing();
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="text"
+        role="searchbox"
+        aria-label={`Search ${menuLabel}`}
+        aria-controls={menuId}
+        autoComplete="off"
+        spellCheck={false}
+        value={query}
+        onChange={event => onQueryChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        className="radial-menu__search"
+        style={style}
+      />
+      <span aria-live="polite" className="radial-menu__visually-hidden">
+        {resultCount !== null && `${resultCount} ${resultCount === 1 ? 'result' : 'results'}`}
+      </span>
+    </>
+  );
+}
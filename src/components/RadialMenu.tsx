@@ -1,17 +1,137 @@
-import React, { useState, useRef, useMemo } from 'react';
-import { Menu, X } from 'lucide-react';
+import React, {
+  useState, useRef, useMemo, useCallback, useEffect, useId, useReducer, forwardRef, useImperativeHandle, RefObject,
+} from 'react';
+import { createPortal } from 'react-dom';
+import {
+  Menu, X, ChevronLeft, Move, Loader2, AlertCircle, Check, Circle, Eye, EyeOff, Pin, RotateCcw, MoreHorizontal, Undo2,
+} from 'lucide-react';
 import { useDraggable } from '../hooks/useDraggable';
-import { useRepulsionAndOrbit } from '../hooks/useRepulsionAndOrbit';
+import { useRepulsionAndOrbit, useRingCapacity, ItemPosition } from '../hooks/useRepulsionAndOrbit';
+import { useRovingFocus } from '../hooks/useRovingFocus';
+import { useMarkingGesture, MarkingCandidate } from '../hooks/useMarkingGesture';
+import { useControllableState } from '../hooks/useControllableState';
+import { useContextTrigger } from '../hooks/useContextTrigger';
+import { useOutsideClick } from '../hooks/useOutsideClick';
+import { useItemActionStatus } from '../hooks/useItemActionStatus';
+import { useConfirmFlow, getCancelAnswerId } from '../hooks/useConfirmFlow';
+import { useMenuSearch } from '../hooks/useMenuSearch';
+import { useUndoToast, UndoToast } from '../hooks/useUndoToast';
+import { usePresence, PresencePhase } from '../hooks/usePresence';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { useSpringFollow } from '../hooks/useSpringFollow';
+import { useBoundaryRect } from '../hooks/useBoundaryRect';
+import { useMeasuredSizes } from '../hooks/useMeasuredSizes';
+import { useShortcuts, ShortcutHandler } from '../hooks/useShortcuts';
+import { useMenuPreferences } from '../hooks/useMenuPreferences';
+import { useManagedMenu, useManagedMenuPlacement } from '../hooks/useManagedMenu';
+import { usePortalTarget } from '../hooks/usePortalTarget';
+import { useViewportSize } from '../hooks/useViewportSize';
+import {
+  getAngularRanks, getItemMotion, getRingAnimationDuration, resolveAnimation, RadialMenuAnimation,
+} from '../animation/animation';
+import { findItemPath, flattenMenuTree, getItemsAtPath, hasChildren } from '../core/menuTree';
+import { getMenuRings, menuNavigationReducer, resolveActivation, INITIAL_NAVIGATION_STATE } from '../core/menuState';
+import type { ConfirmMode, ConfirmOptions } from '../core/confirmation';
+import { Point } from '../utils/pointer';
+import { SnapOptions, InertiaOptions } from '../core/snapping';
+import { PositionStorage } from '../utils/positionStorage';
+import { RadialMenuCallbacks, RadialMenuCloseReason, RadialMenuInputMethod } from '../analytics/events';
+import { LayoutStrategy } from '../core/layout/strategies';
+import { placeRadialLabels } from '../core/layout/labels';
+import { computeWedges, describeWedgePath, findWedgeAt, getWedgeCenter, Wedge } from '../core/layout/wedges';
+import { assignMnemonics, formatAriaShortcut, formatShortcut, parseShortcut, Shortcut } from '../core/shortcuts';
+import { defaultShortcutRegistry, ShortcutConflict, ShortcutRegistry } from '../core/shortcutRegistry';
+import {
+  applyMenuPreferences, arrangeByUsage, moveMenuItem, recordMenuItemUse, setMenuItemFlag, ROOT_RING_KEY,
+} from '../core/menuPreferences';
+import { getRingWindow, revealRingIndex, RingOverflow, RingWindow } from '../core/ringOverflow';
+import { computeSubmenuRadius } from '../core/layoutEngine';
+import type { MenuFootprint } from '../core/menuManager';
+import { isApplePlatform } from '../utils/platform';
+import { isEditableElement } from '../utils/dom';
+import { PreferencesStorage } from '../utils/preferencesStorage';
+import { getActiveElement, mapPointToDocument, PortalTarget } from '../utils/portal';
+import { useObstacleRects, ObstacleSource } from '../hooks/useObstacleRects';
+import { useRadialMenuTheme } from '../theme/ThemeContext';
+import { mergeTheme, themeToCssVariables, RadialMenuThemeOverrides } from '../theme/theme';
+import './RadialMenu.css';
+import radialMenuStyles from './RadialMenu.css?inline';
+import { HighlightedLabel } from './HighlightedLabel';
+import { MenuSearchField } from './MenuSearchField';
+import { RingCallout } from './RingCallout';
 
 export interface RadialMenuItem {
   id: string;
   icon: React.ElementType;
   label: string;
   description?: string;
-  action?: () => void;
+  // Receives the context when the menu was opened on a target, and the new state of a checkbox or radio item.
+  // Returning a promise shows a spinner until it settles; the menu closes on success and shows an error state on
+  // the item if it rejects.
+  action?: (context?: RadialMenuContext, checked?: boolean) => void | Promise<unknown>;
+  children?: RadialMenuItem[]; // Activating an item with children opens them as a submenu ring
+  theme?: RadialMenuThemeOverrides; // Per-item colors, shadow and radius, applied over the menu's theme
+  disabled?: boolean; // Still focusable so it can be discovered, but can't be activated
+  disabledReason?: string; // Shown as the tooltip of a disabled item and announced with it
+  type?: 'checkbox' | 'radio'; // Toggle items keep the menu open unless closeOnSelect is set
+  checked?: boolean; // Controlled checked state; left undefined, the menu tracks it internally
+  group?: string; // Radio items in the same ring and group are mutually exclusive
+  onCheckedChange?: (checked: boolean) => void;
+  closeOnSelect?: boolean; // Defaults to true for plain items and false for toggles
+  badge?: number | string;
+  shortcut?: string; // Runs the item from anywhere on the page, even while the menu is closed, e.g. "Mod+Shift+S"
+  mnemonic?: string; // One key that picks the item while its ring is open; taken from the label when menu mnemonics are on
+  // Asks before the action runs, also when it comes from the shortcut: by holding the item, selecting it twice or
+  // answering a yes/no ring
+  confirm?: ConfirmMode | ConfirmOptions;
+  undo?: (context?: RadialMenuContext) => void; // Offered in a toast for a few seconds after the action succeeded
+  undoMessage?: string; // Text of the undo toast, e.g. "Message deleted"; the label by default
 }
 
-interface RadialMenuProps {
+export interface RadialMenuItemRenderState {
+  isOpen: boolean;
+  isHovered: boolean; // Hovered, focused or picked by a marking gesture
+  isOpenedParent: boolean;
+  hasChildren: boolean;
+  iconSize: number;
+  isDisabled: boolean;
+  isChecked: boolean; // Always false for items without a type
+  isHidden: boolean; // Hidden items are only shown in edit mode
+  status: 'idle' | 'pending' | 'error'; // Progress of an async action
+  matchedIndices: number[]; // Label code points (as in Array.from) matched by the search; empty while not searching
+  mnemonic: string | null; // Only while the item's ring is the active one and mnemonics are on
+  shortcut: string | null; // Formatted for display, e.g. "⇧⌘S"
+  confirmation: 'armed' | 'held' | null; // Waiting to be selected again, or being held to confirm
+}
+
+export type RadialMenuUndoToast = UndoToast<RadialMenuItem>;
+
+export interface RadialMenuTriggerRenderState {
+  isOpen: boolean;
+  isInSubmenu: boolean; // The trigger acts as "back" while true
+  breadcrumb: string[];
+  defaultIcon: React.ReactNode;
+  page: number; // Of the active ring, when it has more items than fit
+  pageCount: number;
+}
+
+// Where a context-mode menu was opened
+export interface RadialMenuContext {
+  target: HTMLElement;
+  x: number; // Viewport coordinates of the right-click or long-press
+  y: number;
+}
+
+export interface MarkingMenuOptions {
+  moveModifier?: 'altKey' | 'shiftKey' | 'ctrlKey' | 'metaKey' | null; // Held while pressing to drag the widget instead
+  showDragHandle?: boolean; // A grip next to the main button that always drags the widget
+  revealDelay?: number; // ms of pressing before the ring is drawn
+  deadZoneRadius?: number; // Releasing closer than this to the center cancels; defaults to half the main button
+}
+
+// The callbacks (onOpen, onClose, onItemHover, onItemSelect, onDragStart, onDragEnd) are for observing the menu,
+// e.g. for analytics; see createTelemetryAdapter
+interface RadialMenuProps extends RadialMenuCallbacks<RadialMenuItem> {
   items: RadialMenuItem[];
   orbitRadius?: number;
   itemSize?: number;
@@ -20,6 +140,75 @@ interface RadialMenuProps {
   mainIconSize?: number;
   dragThreshold?: number;
   hoverScale?: number;
+  submenuRingSpacing?: number; // Distance between the parent ring and the submenu ring; defaults to 1.5 * itemSize
+  ariaLabel?: string; // Accessible name of the root menu
+  markingMenu?: boolean | MarkingMenuOptions; // Press, drag toward an item and release to select it
+  // Controlled state; each one falls back to internal state when left undefined
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  position?: Point; // Center of the main button in viewport coordinates of the document the menu renders in
+  onPositionChange?: (position: Point) => void;
+  snapping?: SnapOptions; // Snap points are button centers, like `position`
+  inertia?: boolean | InertiaOptions;
+  persistPosition?: string | { key: string; storage?: PositionStorage }; // Storage key, localStorage by default
+  boundary?: RefObject<HTMLElement>; // Dragging and the ring stay inside this element instead of the window
+  activeItemId?: string | null; // The highlighted (hovered or focused) item
+  onActiveItemChange?: (itemId: string | null) => void;
+  // 'floating' is the draggable button; 'context' opens the ring at the pointer over one of `contextTargets`
+  mode?: 'floating' | 'context';
+  contextTargets?: RefObject<HTMLElement>[];
+  longPressDelay?: number;
+  closeOnOutsideClick?: boolean; // Defaults to true in context mode
+  layout?: LayoutStrategy; // circleLayout() by default; keep the strategy object stable between renders
+  obstacles?: ObstacleSource[]; // Refs, viewport rects or CSS selectors the ring keeps clear of; keep the array stable
+  obstaclePadding?: number;
+  theme?: RadialMenuThemeOverrides; // Merged over the theme from RadialMenuThemeProvider
+  animation?: RadialMenuAnimation; // Durations and easings come from the theme's transitions
+  // 'inside' shows the description in the hovered item; 'outside' draws labels around the ring and the hovered
+  // item's description in a callout next to it
+  labelPlacement?: 'inside' | 'outside';
+  // Opens and closes the menu from anywhere on the page; 'pointer' opens it at the mouse and returns it afterwards
+  hotkey?: string | { shortcut: string; openAt?: 'dock' | 'pointer' };
+  mnemonics?: boolean; // One-key access to the items of the open ring, shown as a hint on each item
+  shortcutRegistry?: ShortcutRegistry; // Where clashes with other menus are detected; shared page-wide by default
+  // Called when this menu's shortcuts clash with another's, whichever registered first; that one keeps the keys
+  onShortcutConflict?: (conflicts: ShortcutConflict[]) => void;
+  // Edit mode: items can be dragged to other slots of their ring (or moved with Shift+arrows) and hidden (H).
+  // It ends with the main button, Escape or when the menu closes.
+  editing?: boolean;
+  defaultEditing?: boolean;
+  onEditingChange?: (editing: boolean) => void;
+  persistPreferences?: string | { key: string; storage?: PreferencesStorage }; // Per menu id, localStorage by default
+  // The most-used items get the slots nearest `preferredAngle` (degrees, 0 pointing right; -90, the top, by
+  // default). Pinned items (P in edit mode) and items moved by hand keep their slot.
+  adaptiveOrder?: boolean | { preferredAngle: number };
+  // 'wedge' draws each ring as a donut of SVG wedges, one per item over its share of the safe arcs, with the icon
+  // and label in the middle. The whole band is the target, picked by angle and distance from the center.
+  itemShape?: 'circle' | 'wedge';
+  // What a ring does with more items than fit on its safe arcs: 'squeeze' (the default) crowds them together,
+  // 'pages' shows a page at a time with a "More" item to turn it, and 'rotate' scrolls them past one at a time.
+  // Both scroll with the mouse wheel, trackpad swipes, PageUp/PageDown and the arrow keys past either end.
+  overflow?: RingOverflow;
+  // Renders the menu into the document body (true), an element, a shadow root or a same-origin iframe's document
+  // instead of in place, out of reach of ancestors with a transform or overflow. Pointer positions from the page
+  // are mapped into the iframe; shadow roots and iframes get the menu's stylesheet.
+  portal?: PortalTarget;
+  renderItem?: (item: RadialMenuItem, state: RadialMenuItemRenderState) => React.ReactNode;
+  renderTrigger?: (state: RadialMenuTriggerRenderState) => React.ReactNode;
+  undoDuration?: number; // ms the undo toast of an item with `undo` stays up
+  renderUndoToast?: (toast: RadialMenuUndoToast) => React.ReactNode; // e.g. to show it in the app's own toast area
+}
+
+export interface RadialMenuHandle {
+  open: () => void;
+  close: () => void;
+  toggle: () => void;
+  moveTo: (position: Point) => void; // Center of the main button in viewport coordinates
+  focusItem: (itemId: string) => void; // Opens the menu, and any submenus leading to the item, then focuses it
+  startEditing: () => void; // Opens the menu in edit mode
+  stopEditing: () => void;
+  resetPreferences: () => void; // Back to the order of `items`, nothing hidden or pinned and no usage history
 }
 
 const DEFAULT_ORBIT_RADIUS = 100;
@@ -31,8 +220,65 @@ const DEFAULT_DRAG_THRESHOLD = 5;
 const TOGGLE_LOCK_DURATION = 100;
 const DEFAULT_HOVER_SCALE = 1.3;
 const HOVER_CONTENT_SCALE_FACTOR = 0.6; // Content shrinks by 20% on hover
+const INACTIVE_PARENT_RING_OPACITY = 0.55;
+const BREADCRUMB_SEPARATOR = ' › ';
+const DEFAULT_ARIA_LABEL = 'Radial menu';
+const TRIGGER_OPEN_KEYS = ['Enter', ' ', 'ArrowDown', 'ArrowUp', 'ArrowLeft', 'ArrowRight'];
+const DEFAULT_MARKING_MOVE_MODIFIER = 'altKey';
+const DEFAULT_MARKING_REVEAL_DELAY = 300;
+const DRAG_HANDLE_SIZE_FACTOR = 0.4;
+const DEFAULT_LONG_PRESS_DELAY = 500;
+const BASE_Z_INDEX = 1000; // Menus under a RadialMenuProvider stack up from here, the frontmost highest
+const NO_CONTEXT_TARGETS: RefObject<HTMLElement>[] = [];
+const NO_OBSTACLE_SOURCES: ObstacleSource[] = [];
+const DEFAULT_OBSTACLE_PADDING = 4;
+const NO_MATCHED_INDICES: number[] = [];
+const SEARCH_FIELD_MAX_WIDTH = 160;
+const NO_MNEMONICS = new Map<string, string>();
+const RING_LABEL_GAP = 6; // Between an item and its outside label
+const RING_LABEL_SPACING = 4; // Between neighbouring outside labels
+const DEFAULT_PREFERRED_ANGLE = -90;
+const HIDDEN_ITEM_OPACITY = 0.4; // In edit mode
+const DISABLED_ITEM_OPACITY = 0.45;
+const WEDGE_BAND_FACTOR = 1.5; // Thickness of a wedge ring, as a multiple of itemSize
+const WEDGE_GAP = 2; // Between neighbouring wedges
+const NO_WEDGES: Wedge[] = [];
+const ARROW_KEY_STEPS: Record<string, number> = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 };
+const NO_RING_OFFSETS: Record<string, number> = {};
+const SEARCH_RING_KEY_PREFIX = 'search:'; // Each query's results scroll on their own
+const INNER_MORE_ITEM_ID = 'radial-menu-more';
+const OUTER_MORE_ITEM_ID = 'radial-menu-more-submenu';
+const WHEEL_ITEM_DISTANCE = 40; // Wheel pixels per item when rotating
+const WHEEL_PAGE_DISTANCE = 120; // Wheel pixels per page
+const WHEEL_LINE_HEIGHT = 16; // For wheels that report lines instead of pixels
+const MAX_PAGE_DOTS = 5; // More pages than this are counted as text on the main button
+const DEFAULT_UNDO_DURATION = 5000;
+
+// Keys that start a search when typed while the ring is open: printable characters without shortcut modifiers
+const isSearchKey = (event: KeyboardEvent) =>
+  event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey && !event.defaultPrevented;
+
+// The slot nearest to where an item dragged `offset` away from slot `fromIndex` was let go
+function findDropSlot(positions: ItemPosition[], fromIndex: number, offset: Point): number {
+  const from = positions[fromIndex];
+  if (!from) return fromIndex;
+  const distanceTo = (slot: ItemPosition) => Math.hypot(slot.x - from.x - offset.x, slot.y - from.y - offset.y);
+  return positions.reduce((best, slot, index) => (distanceTo(slot) < distanceTo(positions[best]) ? index : best), fromIndex);
+}
+
+const isMoreItem = (item: RadialMenuItem) => item.id === INNER_MORE_ITEM_ID || item.id === OUTER_MORE_ITEM_ID;
 
-export const RadialMenu: React.FC<RadialMenuProps> = ({
+// The items a ring shows, plus the item that turns the page when it has pages
+function getShownRingItems(ringWindow: RingWindow<RadialMenuItem>, moreItemId: string): RadialMenuItem[] {
+  if (!ringWindow.hasMoreSlot) return ringWindow.items;
+  const nextPage = (ringWindow.page + 1) % ringWindow.pageCount;
+  return [
+    ...ringWindow.items,
+    { id: moreItemId, icon: MoreHorizontal, label: 'More', description: `Show page ${nextPage + 1} of ${ringWindow.pageCount}` },
+  ];
+}
+
+export const RadialMenu = forwardRef<RadialMenuHandle, RadialMenuProps>(({
   items,
   orbitRadius = DEFAULT_ORBIT_RADIUS,
   itemSize = DEFAULT_ITEM_SIZE,
@@ -41,63 +287,1034 @@ export const RadialMenu: React.FC<RadialMenuProps> = ({
   mainIconSize = DEFAULT_MAIN_ICON_SIZE,
   dragThreshold = DEFAULT_DRAG_THRESHOLD,
   hoverScale = DEFAULT_HOVER_SCALE,
-}) => {
-  const [isOpen, setIsOpen] = useState(false);
+  submenuRingSpacing,
+  ariaLabel = DEFAULT_ARIA_LABEL,
+  markingMenu = false,
+  open,
+  defaultOpen = false,
+  onOpenChange,
+  position: controlledCenter,
+  onPositionChange,
+  snapping,
+  inertia,
+  persistPosition,
+  boundary,
+  activeItemId,
+  onActiveItemChange,
+  mode = 'floating',
+  contextTargets = NO_CONTEXT_TARGETS,
+  longPressDelay = DEFAULT_LONG_PRESS_DELAY,
+  closeOnOutsideClick,
+  layout,
+  obstacles = NO_OBSTACLE_SOURCES,
+  obstaclePadding = DEFAULT_OBSTACLE_PADDING,
+  theme,
+  animation,
+  labelPlacement = 'inside',
+  hotkey,
+  mnemonics = false,
+  shortcutRegistry = defaultShortcutRegistry,
+  onShortcutConflict,
+  editing,
+  defaultEditing = false,
+  onEditingChange,
+  persistPreferences,
+  adaptiveOrder = false,
+  itemShape = 'circle',
+  overflow = 'squeeze',
+  portal,
+  renderItem,
+  renderTrigger,
+  undoDuration = DEFAULT_UNDO_DURATION,
+  renderUndoToast,
+  onOpen,
+  onClose,
+  onItemHover,
+  onItemSelect,
+  onDragStart,
+  onDragEnd,
+}, ref) => {
+  const isContextMode = mode === 'context';
+  const contextTheme = useRadialMenuTheme();
+  const resolvedTheme = useMemo(() => mergeTheme(contextTheme, theme), [contextTheme, theme]);
+  const themeVariables = useMemo(() => themeToCssVariables(resolvedTheme), [resolvedTheme]);
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const motion = resolveAnimation(animation, prefersReducedMotion);
+  const [isOpen, setIsOpen] = useControllableState(open, defaultOpen, onOpenChange);
+  const [isEditing, setIsEditing] = useControllableState(editing, defaultEditing, onEditingChange);
   const [isToggleLocked, setIsToggleLocked] = useState(false);
-  const [hoveredItemId, setHoveredItemId] = useState<string | null>(null);
+  const [hoveredItemId, setHoveredItemId] = useControllableState<string | null>(activeItemId, null, onActiveItemChange);
+  const [navigation, dispatchNavigation] = useReducer(menuNavigationReducer, INITIAL_NAVIGATION_STATE);
+  const { path: menuPath, query: searchQuery } = navigation;
+  const [menuContext, setMenuContext] = useState<RadialMenuContext | null>(null);
+  const [uncontrolledChecked, setUncontrolledChecked] = useState<Record<string, boolean>>({});
+  const { statuses: itemStatuses, runAction, clearErrors } = useItemActionStatus();
+  const { toast: undoToast, showUndoToast } = useUndoToast<RadialMenuItem>(undoDuration);
   const menuRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const menuId = useId();
+  const { isManaged, stackIndex, obstacles: managedObstacles, bringToFront } = useManagedMenuPlacement(menuId);
+  const submenuId = `${menuId}-submenu`;
+  const wasOpenAtMarkStartRef = useRef(false);
+
+  // The user's arrangement of the items; hidden ones stay in place while editing so they can be shown again
+  const { preferences, updatePreferences, resetPreferences } = useMenuPreferences(
+    typeof persistPreferences === 'string' ? persistPreferences : persistPreferences?.key,
+    typeof persistPreferences === 'object' ? persistPreferences.storage : undefined,
+  );
+  const arrangedItems = useMemo(() => applyMenuPreferences(items, preferences, isEditing), [items, preferences, isEditing]);
+  const preferredAngle = adaptiveOrder
+    ? (adaptiveOrder === true ? DEFAULT_PREFERRED_ANGLE : adaptiveOrder.preferredAngle) * Math.PI / 180
+    : null;
+
+  // Observers are called from effects and handlers, so they don't need to be stable
+  const callbacksRef = useRef<RadialMenuCallbacks<RadialMenuItem>>({});
+  useEffect(() => {
+    callbacksRef.current = { onOpen, onClose, onItemHover, onItemSelect, onDragStart, onDragEnd };
+  });
+  const openedAtRef = useRef(0);
+  const closeReasonRef = useRef<RadialMenuCloseReason | null>(null);
+
+  const markingOptions: Required<MarkingMenuOptions> | null = markingMenu && !isContextMode ? {
+    moveModifier: DEFAULT_MARKING_MOVE_MODIFIER,
+    showDragHandle: true,
+    revealDelay: DEFAULT_MARKING_REVEAL_DELAY,
+    deadZoneRadius: mainButtonSize / 2,
+    ...(markingMenu === true ? {} : markingMenu),
+  } : null;
+
+  const boundaryRect = useBoundaryRect(boundary);
+
+  // A menu portalled into an iframe lives in the frame's viewport, so that is what it is laid out and dragged in
+  const portalTarget = usePortalTarget(portal);
+  const isInOtherWindow = !!portalTarget && portalTarget.ownerDocument !== document;
+  const viewportSize = useViewportSize(isInOtherWindow ? portalTarget.ownerWindow : null);
+  const layoutBounds = useMemo(
+    () => boundaryRect ?? (isInOtherWindow ? { left: 0, top: 0, ...viewportSize } : null),
+    [boundaryRect, isInOtherWindow, viewportSize],
+  );
+  // Callouts are always kept on screen, in the boundary if there is one and otherwise in the menu's viewport
+  const calloutBounds = useMemo(
+    () => layoutBounds ?? { left: 0, top: 0, ...viewportSize },
+    [layoutBounds, viewportSize],
+  );
+
+  // The public API speaks in button centers, useDraggable in top-left corners
+  const controlledCenterX = controlledCenter?.x;
+  const controlledCenterY = controlledCenter?.y;
+  const controlledTopLeft = useMemo(() => (
+    controlledCenterX === undefined || controlledCenterY === undefined ? undefined : {
+      x: controlledCenterX - mainButtonSize / 2,
+      y: controlledCenterY - mainButtonSize / 2,
+    }
+  ), [controlledCenterX, controlledCenterY, mainButtonSize]);
 
   const { 
     position, 
+    isPlaced,
     handleInteractionStart,
-    hasMovedBeyondThreshold 
+    isDragging,
+    hasMovedBeyondThreshold,
+    moveTo,
   } = useDraggable(menuRef, {
-    initialPosition: { 
-      x: typeof window !== 'undefined' ? window.innerWidth / 2 : 0, 
-      y: typeof window !== 'undefined' ? window.innerHeight / 2 : 0,
-    },
     constrainElementSize: mainButtonSize,
     dragThreshold: dragThreshold,
+    position: controlledTopLeft,
+    onPositionChange: onPositionChange && (topLeft => onPositionChange({
+      x: topLeft.x + mainButtonSize / 2,
+      y: topLeft.y + mainButtonSize / 2,
+    })),
+    // A context menu is placed at the pointer every time it opens, so it neither snaps nor remembers where it was
+    snapping: snapping && !isContextMode ? {
+      ...snapping,
+      points: snapping.points?.map(point => ({ x: point.x - mainButtonSize / 2, y: point.y - mainButtonSize / 2 })),
+    } : undefined,
+    inertia: !isContextMode && inertia,
+    persistenceKey: isContextMode ? undefined : (typeof persistPosition === 'string' ? persistPosition : persistPosition?.key),
+    storage: typeof persistPosition === 'object' ? persistPosition.storage : undefined,
+    bounds: layoutBounds,
+    onDragStart: topLeft => callbacksRef.current.onDragStart?.({
+      position: { x: topLeft.x + mainButtonSize / 2, y: topLeft.y + mainButtonSize / 2 },
+    }),
+    onDragEnd: topLeft => callbacksRef.current.onDragEnd?.({
+      position: { x: topLeft.x + mainButtonSize / 2, y: topLeft.y + mainButtonSize / 2 },
+    }),
   });
 
-  const itemPositions = useRepulsionAndOrbit({
-    isOpen,
+  const confirmFlow = useConfirmFlow(arrangedItems, {
+    enabled: !isEditing,
+    isPending: id => itemStatuses[id]?.state === 'pending',
+    onHoldComplete: id => completeHold(id),
+  });
+  const { disarm: disarmConfirmation, reset: resetConfirmation, cancelHold } = confirmFlow;
+  // Search looks through the tree without the yes/no rings, so the answers of every such item don't turn up as matches
+  const ringTree = navigation.query.trim() ? arrangedItems : confirmFlow.tree;
+
+  // At most two rings are shown: the level holding the opened parent (inner) and that parent's children (outer).
+  const rings = useMemo(() => getMenuRings(ringTree, navigation), [ringTree, navigation]);
+  const { isSearching, searchResults, openedParents, activeParent } = rings;
+  // Leaving the search puts focus on the main button, from where the arrow keys lead back into the ring
+  const { highlights: searchHighlights, setQuery: setSearchQuery, clearSearch } = useMenuSearch(rings, dispatchNavigation, () => {
+    setHoveredItemId(null);
+    triggerRef.current?.focus();
+  });
+  const isSubmenuOpen = rings.outerRingItems.length > 0;
+  const hasOutsideLabels = labelPlacement === 'outside';
+
+  // Rings stay mounted, at their last positions, while they animate out
+  const transitionDuration = resolvedTheme.transitions.duration;
+  const ringPhase = usePresence(isOpen, {
+    enterDuration: getRingAnimationDuration(motion, transitionDuration, rings.innerRingItems.length),
+    exitDuration: getRingAnimationDuration(motion, transitionDuration, Math.max(rings.innerRingItems.length, rings.outerRingItems.length)),
+    onEnterStart: animation?.onEnterStart,
+    onEnterComplete: animation?.onEnterComplete,
+    onExitStart: animation?.onExitStart,
+    onExitComplete: animation?.onExitComplete,
+  });
+  const submenuPhase = usePresence(isOpen && isSubmenuOpen, {
+    enterDuration: getRingAnimationDuration(motion, transitionDuration, rings.outerRingItems.length),
+    exitDuration: getRingAnimationDuration(motion, transitionDuration, rings.outerRingItems.length),
+  });
+  const isRingMounted = ringPhase !== 'closed';
+
+  const obstacleRects = useObstacleRects(obstacles, isOpen, menuRef);
+  // Under a RadialMenuProvider the rings also keep clear of the other menus
+  const layoutObstacles = useMemo(
+    () => (managedObstacles.length > 0 ? [...obstacleRects, ...managedObstacles] : obstacleRects),
+    [obstacleRects, managedObstacles],
+  );
+
+  // A ring with more items than fit shows a page or a rotating window of them. Offsets are kept per ring, so
+  // coming back from a submenu returns to the same page, and forgotten when the menu closes.
+  const [ringOffsets, setRingOffsets] = useState(NO_RING_OFFSETS);
+  const innerRingKey = isSearching
+    ? `${SEARCH_RING_KEY_PREFIX}${searchQuery}`
+    : (openedParents.length > 1 ? openedParents[openedParents.length - 2].id : ROOT_RING_KEY);
+  const outerRingKey = activeParent?.id ?? ROOT_RING_KEY;
+  const innerCapacity = useRingCapacity({
+    isOpen: isRingMounted && overflow !== 'squeeze',
+    centerPosition: position,
+    orbitRadius,
+    itemSize,
+    mainButtonSize,
+    layout,
+    obstacles: layoutObstacles,
+    obstaclePadding,
+    bounds: layoutBounds,
+  });
+  const innerWindow = useMemo(
+    () => getRingWindow(rings.innerRingItems, innerCapacity, overflow, ringOffsets[innerRingKey] ?? 0),
+    [rings.innerRingItems, innerCapacity, overflow, ringOffsets, innerRingKey],
+  );
+  const innerShownItems = useMemo(() => getShownRingItems(innerWindow, INNER_MORE_ITEM_ID), [innerWindow]);
+
+  const innerItemPositions = useRepulsionAndOrbit({
+    isOpen: isRingMounted,
     centerPosition: position,
-    numItems: items.length,
+    numItems: innerShownItems.length,
     orbitRadius,
     itemSize, 
     mainButtonSize,
+    layout,
+    obstacles: layoutObstacles,
+    obstaclePadding,
+    bounds: layoutBounds,
+  });
+
+  const submenuOrbitRadius = computeSubmenuRadius(innerItemPositions, orbitRadius, itemSize, submenuRingSpacing);
+
+  const outerCapacity = useRingCapacity({
+    isOpen: submenuPhase !== 'closed' && isSubmenuOpen && overflow !== 'squeeze',
+    centerPosition: position,
+    orbitRadius: submenuOrbitRadius,
+    itemSize,
+    mainButtonSize,
+    layout,
+    obstacles: layoutObstacles,
+    obstaclePadding,
+    bounds: layoutBounds,
+  });
+  const outerWindow = useMemo(
+    () => getRingWindow(rings.outerRingItems, outerCapacity, overflow, ringOffsets[outerRingKey] ?? 0),
+    [rings.outerRingItems, outerCapacity, overflow, ringOffsets, outerRingKey],
+  );
+  const outerShownItems = useMemo(() => getShownRingItems(outerWindow, OUTER_MORE_ITEM_ID), [outerWindow]);
+
+  const outerItemPositions = useRepulsionAndOrbit({
+    isOpen: submenuPhase !== 'closed' && isSubmenuOpen,
+    centerPosition: position,
+    numItems: outerShownItems.length,
+    orbitRadius: submenuOrbitRadius,
+    itemSize,
+    mainButtonSize,
+    layout,
+    obstacles: layoutObstacles,
+    obstaclePadding,
+    bounds: layoutBounds,
+  });
+
+  // Wedges cover each item's share of the safe arcs; their middle is where the item's content goes
+  const isWedgeShape = itemShape === 'wedge';
+  const wedgeBandWidth = itemSize * WEDGE_BAND_FACTOR;
+  const innerWedges = useMemo(
+    () => (isWedgeShape ? computeWedges(innerItemPositions, wedgeBandWidth) : NO_WEDGES),
+    [isWedgeShape, innerItemPositions, wedgeBandWidth],
+  );
+  const outerWedges = useMemo(
+    () => (isWedgeShape ? computeWedges(outerItemPositions, wedgeBandWidth) : NO_WEDGES),
+    [isWedgeShape, outerItemPositions, wedgeBandWidth],
+  );
+  const innerItemAnchors = useMemo(
+    () => (isWedgeShape ? innerWedges.map(getWedgeCenter) : innerItemPositions),
+    [isWedgeShape, innerWedges, innerItemPositions],
+  );
+  const outerItemAnchors = useMemo(
+    () => (isWedgeShape ? outerWedges.map(getWedgeCenter) : outerItemPositions),
+    [isWedgeShape, outerWedges, outerItemPositions],
+  );
+
+  // Slots only depend on how many items a ring has, so adaptive order hands them out after layout. Usage counted
+  // while the menu is open takes effect the next time it opens, so nothing moves under the pointer.
+  const [rankedUsage, setRankedUsage] = useState(preferences.usage);
+  useEffect(() => {
+    if (ringPhase === 'closed') setRankedUsage(preferences.usage);
+  }, [ringPhase, preferences.usage]);
+  const arrangeRing = useCallback((ringItems: RadialMenuItem[], positions: ItemPosition[]) => (
+    preferredAngle === null || isSearching
+      ? ringItems
+      : arrangeByUsage(ringItems, positions, { pinned: preferences.pinned, usage: rankedUsage, preferredAngle })
+  ), [preferredAngle, isSearching, preferences.pinned, rankedUsage]);
+  const innerRingItems = useMemo(
+    () => arrangeRing(innerShownItems, innerItemAnchors),
+    [arrangeRing, innerShownItems, innerItemAnchors],
+  );
+  const outerRingItems = useMemo(
+    () => arrangeRing(outerShownItems, outerItemAnchors),
+    [arrangeRing, outerShownItems, outerItemAnchors],
+  );
+
+  // Keyboard focus and marking gestures work on the ring that was opened last, in the angular order of its items
+  const activeRingItems = isSubmenuOpen ? outerRingItems : innerRingItems;
+  const activeRingPositions = isSubmenuOpen ? outerItemAnchors : innerItemAnchors;
+  const activeRingWindow = isSubmenuOpen ? outerWindow : innerWindow;
+  const activeRingCandidates = useMemo(() => activeRingItems
+    .map((item, index) => ({ id: item.id, angle: activeRingPositions[index]?.angle }))
+    .filter((entry): entry is MarkingCandidate => entry.angle !== undefined)
+    .sort((a, b) => a.angle - b.angle), [activeRingItems, activeRingPositions]);
+  const orderedActiveItemIds = useMemo(() => activeRingCandidates.map(entry => entry.id), [activeRingCandidates]);
+
+  const { tabStopId, registerItem, focusItem, handleNavigationKey } = useRovingFocus(orderedActiveItemIds);
+
+  const closeMenu = useCallback((reason: RadialMenuCloseReason) => {
+    closeReasonRef.current = reason;
+    if (menuRef.current?.contains(getActiveElement(menuRef.current))) {
+      // Return focus to the trigger (the target, for context menus) so keyboard users don't lose their place
+      (isContextMode ? menuContext?.target : triggerRef.current)?.focus();
+    }
+    setIsOpen(false); // The path is reset once the exit animation is done
+    setHoveredItemId(null);
+    focusItem(null);
+  }, [focusItem, setIsOpen, setHoveredItemId, isContextMode, menuContext]);
+
+  // Reports every change of isOpen, including a controlling parent's; closeMenu leaves the reason for the close
+  const wasOpenRef = useRef(false);
+  useEffect(() => {
+    if (isOpen === wasOpenRef.current) return;
+    wasOpenRef.current = isOpen;
+    if (isOpen) {
+      openedAtRef.current = performance.now();
+      callbacksRef.current.onOpen?.();
+    } else {
+      callbacksRef.current.onClose?.({
+        reason: closeReasonRef.current ?? 'api',
+        openDuration: performance.now() - openedAtRef.current,
+      });
+      setIsEditing(false);
+    }
+    closeReasonRef.current = null;
+  }, [isOpen, setIsEditing]);
+
+  // Edit mode happens in the open ring, also when a controlling parent switches it on
+  useEffect(() => {
+    if (isEditing) setIsOpen(true);
+  }, [isEditing, setIsOpen]);
+
+  // The dwell time is reported when the hover ends, so the item is remembered from when it started
+  const hoverStartRef = useRef<{ item: RadialMenuItem; time: number } | null>(null);
+  useEffect(() => {
+    const hoverStart = hoverStartRef.current;
+    if (hoverStart?.item.id === hoveredItemId) return;
+    if (hoverStart) {
+      callbacksRef.current.onItemHover?.({ item: hoverStart.item, dwellTime: performance.now() - hoverStart.time });
+    }
+    const item = hoveredItemId === null ? undefined : [...innerRingItems, ...outerRingItems].find(candidate => candidate.id === hoveredItemId);
+    hoverStartRef.current = item ? { item, time: performance.now() } : null;
+  }, [hoveredItemId, innerRingItems, outerRingItems]);
+
+  // Also covers a controlling parent closing the menu without going through closeMenu
+  useEffect(() => {
+    if (ringPhase === 'closed') {
+      dispatchNavigation({ type: 'reset' });
+      setRingOffsets(NO_RING_OFFSETS);
+      clearErrors();
+      resetConfirmation();
+    }
+  }, [ringPhase, clearErrors, resetConfirmation]);
+
+  const navigateBack = useCallback(() => {
+    const closedParentId = menuPath[menuPath.length - 1];
+    dispatchNavigation({ type: 'back' });
+    setHoveredItemId(null);
+    // Keep keyboard users on the parent they came from, unless they're driving the menu from the trigger
+    const activeElement = menuRef.current && getActiveElement(menuRef.current);
+    if (closedParentId && menuRef.current?.contains(activeElement ?? null) && activeElement !== triggerRef.current) {
+      focusItem(closedParentId);
+    }
+  }, [menuPath, focusItem, setHoveredItemId]);
+
+  const isItemChecked = useCallback(
+    (item: RadialMenuItem) => !!item.type && (item.checked ?? uncontrolledChecked[item.id] ?? false),
+    [uncontrolledChecked],
+  );
+
+  // Toggles `item` and returns its new state, for the action
+  const updateCheckedState = useCallback((item: RadialMenuItem, ringItems: RadialMenuItem[]) => {
+    // Picking a radio item again doesn't uncheck it
+    const nextChecked = item.type === 'radio' ? true : !isItemChecked(item);
+    if (nextChecked === isItemChecked(item)) return nextChecked;
+    if (item.checked === undefined) {
+      setUncontrolledChecked(prev => {
+        const next = { ...prev, [item.id]: nextChecked };
+        if (item.type === 'radio') {
+          ringItems
+            .filter(sibling => sibling.type === 'radio' && sibling.group === item.group && sibling.id !== item.id)
+            .forEach(sibling => { next[sibling.id] = false; });
+        }
+        return next;
+      });
+    }
+    item.onCheckedChange?.(nextChecked);
+    return nextChecked;
+  }, [isItemChecked]);
+
+  // Moves a ring `step` pages, or items when it rotates, and returns what it shows next
+  const scrollRing = useCallback((isInOuterRing: boolean, step: number) => {
+    const key = isInOuterRing ? outerRingKey : innerRingKey;
+    const offset = (ringOffsets[key] ?? 0) + step;
+    setRingOffsets(prev => ({ ...prev, [key]: offset }));
+    setHoveredItemId(null); // Whatever was under the pointer has moved
+    return getRingWindow(
+      isInOuterRing ? rings.outerRingItems : rings.innerRingItems,
+      isInOuterRing ? outerCapacity : innerCapacity,
+      overflow,
+      offset,
+    );
+  }, [outerRingKey, innerRingKey, ringOffsets, setHoveredItemId, rings, outerCapacity, innerCapacity, overflow]);
+
+  // Counts up whenever the menu opens, closes or moves to another ring, so an async action that settles later can
+  // tell whether the user has moved on since
+  const menuSessionRef = useRef(0);
+  useEffect(() => {
+    menuSessionRef.current += 1;
+  }, [isOpen, menuPath]);
+
+  // Runs a selected item's action, then offers to undo it if the item can be undone. A slow action only closes the
+  // menu if it is still where the item was selected.
+  const runSelectedItem = useCallback((
+    item: RadialMenuItem,
+    context: RadialMenuContext | undefined,
+    checked: boolean | undefined,
+    shouldClose: boolean,
+  ) => {
+    const session = menuSessionRef.current;
+    runAction(item.id, () => item.action?.(context, checked), () => {
+      if (item.undo) showUndoToast(item, item.undoMessage ?? item.label, () => item.undo!(context));
+      if (shouldClose && menuSessionRef.current === session) closeMenu('item');
+    });
+  }, [runAction, showUndoToast, closeMenu]);
+
+  // A selection that has been confirmed, or needed no confirming
+  const selectItem = useCallback((item: RadialMenuItem, siblings: RadialMenuItem[], inputMethod: RadialMenuInputMethod) => {
+    disarmConfirmation();
+    if (preferredAngle !== null) updatePreferences(prev => recordMenuItemUse(prev, item.id));
+    callbacksRef.current.onItemSelect?.({
+      item,
+      path: findItemPath(arrangedItems, item.id)?.slice(0, -1) ?? [],
+      inputMethod,
+      timeToSelect: performance.now() - openedAtRef.current,
+    });
+    const checked = item.type ? updateCheckedState(item, siblings) : undefined;
+    runSelectedItem(item, menuContext ?? undefined, checked, item.closeOnSelect ?? !item.type);
+  }, [arrangedItems, menuContext, updateCheckedState, preferredAngle, updatePreferences, runSelectedItem, disarmConfirmation]);
+
+  const handleItemActivate = useCallback((item: RadialMenuItem, isInOuterRing: boolean, inputMethod: RadialMenuInputMethod) => {
+    if (isMoreItem(item)) {
+      const next = scrollRing(isInOuterRing, 1);
+      if (inputMethod === 'keyboard' && next.items.length > 0) focusItem(next.items[0].id);
+      return;
+    }
+    const answer = confirmFlow.getAnswer(item.id);
+    if (answer) {
+      const { item: askingItem, isConfirmed } = answer;
+      if (isConfirmed && itemStatuses[askingItem.id]?.state === 'pending') return;
+      // Back out of the yes/no ring onto the item it asked about, unless the menu is about to close: leaving the
+      // ring would count as moving on, and a slow action wouldn't close the menu once it is done
+      if (!isConfirmed || !(askingItem.closeOnSelect ?? !askingItem.type)) navigateBack();
+      if (isConfirmed) {
+        selectItem(askingItem, getItemsAtPath(arrangedItems, findItemPath(arrangedItems, askingItem.id)?.slice(0, -1) ?? []), inputMethod);
+      }
+      return;
+    }
+    if (itemStatuses[item.id]?.state === 'pending') return;
+    // The click that ends a hold comes after the action already ran
+    if (inputMethod === 'pointer' && confirmFlow.consumeCompletedHold(item.id)) return;
+    const outcome = resolveActivation(ringTree, navigation, rings, item, isInOuterRing);
+    if (outcome.type === 'ignore') return;
+    if (outcome.type === 'navigate') {
+      dispatchNavigation({ type: 'setPath', path: outcome.path });
+      setHoveredItemId(null);
+      if (inputMethod === 'keyboard') focusItem(outcome.focusId);
+      return;
+    }
+    if (isEditing) return; // Submenus can be opened to rearrange them, but nothing runs
+    const step = confirmFlow.request(item, { isPointer: inputMethod === 'pointer' });
+    if (step === 'open') {
+      // Only search results get here, since the tree being searched has no answers: open the ring in its place
+      const searchPath = rings.searchResults.find(result => result.item.id === item.id)?.path ?? [];
+      dispatchNavigation({ type: 'setPath', path: [...searchPath, item.id] });
+      setHoveredItemId(null);
+      if (inputMethod === 'keyboard') focusItem(getCancelAnswerId(item.id));
+      return;
+    }
+    if (step === 'arm' || step === 'hint') return;
+    selectItem(item, outcome.siblings, inputMethod);
+  }, [
+    arrangedItems, navigation, rings, focusItem, setHoveredItemId, itemStatuses, isEditing, scrollRing, ringTree,
+    confirmFlow, navigateBack, selectItem,
+  ]);
+
+  const completeHold = (id: string) => {
+    const isInOuterRing = outerRingItems.some(item => item.id === id);
+    const item = (isInOuterRing ? outerRingItems : innerRingItems).find(candidate => candidate.id === id);
+    if (!item || !isOpen) return;
+    const outcome = resolveActivation(ringTree, navigation, rings, item, isInOuterRing);
+    if (outcome.type === 'select') selectItem(item, outcome.siblings, 'pointer');
+  };
+
+  const isSearchFieldShown = isOpen && searchQuery.length > 0;
+
+  useContextTrigger(contextTargets, {
+    enabled: isContextMode,
+    longPressDelay,
+    moveTolerance: dragThreshold * 2,
+    onTrigger: (target, point, viaKeyboard) => {
+      setMenuContext({ target, x: point.x, y: point.y });
+      dispatchNavigation({ type: 'reset' });
+      setHoveredItemId(null);
+      const origin = portalTarget ? mapPointToDocument(point, target.ownerDocument, portalTarget.ownerDocument) : point;
+      moveTo({ x: origin.x - mainButtonSize / 2, y: origin.y - mainButtonSize / 2 });
+      setIsOpen(true);
+      if (viaKeyboard && arrangedItems.length > 0) focusItem(arrangedItems[0].id);
+    },
+  });
+
+  const closesOnOutsideClick = closeOnOutsideClick ?? isContextMode;
+  useOutsideClick(menuRef, isOpen && closesOnOutsideClick && !isManaged, () => closeMenu('outside-click'));
+
+  // Mnemonics belong to the ring that was opened last, like keyboard focus
+  const activeMnemonics = useMemo(
+    () => (mnemonics && !isSearching && !isEditing ? assignMnemonics(activeRingItems) : NO_MNEMONICS),
+    [mnemonics, isSearching, isEditing, activeRingItems],
+  );
+
+  // A RadialMenuProvider hands the keyboard to the frontmost open menu instead
+  const handleOpenMenuKeyDown = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      if (searchQuery) {
+        clearSearch();
+      } else if (menuPath.length > 0) {
+        navigateBack();
+      } else if (isEditing) {
+        setIsEditing(false);
+      } else {
+        closeMenu('escape');
+      }
+      return;
+    }
+    // Typing while the ring is open starts a search, unless the user is typing into a field elsewhere on the page
+    if (isEditing || !isSearchKey(event) || isEditableElement(event.target)) return;
+    if (event.key === ' ' && !searchQuery) return;
+    // A mnemonic picks its item; any other key starts a search, which then gets all the typing
+    const mnemonicItem = searchQuery ? undefined : activeRingItems.find(item => activeMnemonics.get(item.id) === event.key.toLowerCase());
+    if (mnemonicItem) {
+      event.preventDefault();
+      handleItemActivate(mnemonicItem, isSubmenuOpen, 'keyboard');
+      return;
+    }
+    event.preventDefault();
+    dispatchNavigation({ type: 'appendQuery', text: event.key });
+  }, [
+    menuPath, navigateBack, closeMenu, searchQuery, clearSearch, activeRingItems, activeMnemonics, isSubmenuOpen,
+    handleItemActivate, isEditing, setIsEditing,
+  ]);
+
+  // Keys pressed in an iframe the menu is portalled into go to the frame's window
+  const keyboardWindow = portalTarget?.ownerWindow;
+  useEffect(() => {
+    if (!isOpen || isManaged) return;
+    const targetWindow = keyboardWindow ?? window;
+    targetWindow.addEventListener('keydown', handleOpenMenuKeyDown);
+    return () => targetWindow.removeEventListener('keydown', handleOpenMenuKeyDown);
+  }, [isOpen, isManaged, handleOpenMenuKeyDown, keyboardWindow]);
+
+  // What the other menus under a RadialMenuProvider keep their rings clear of
+  const footprint = useMemo((): MenuFootprint => {
+    const center = { x: position.x + mainButtonSize / 2, y: position.y + mainButtonSize / 2 };
+    const toItemRect = (anchor: ItemPosition) => ({
+      left: center.x + anchor.x - itemSize / 2,
+      top: center.y + anchor.y - itemSize / 2,
+      right: center.x + anchor.x + itemSize / 2,
+      bottom: center.y + anchor.y + itemSize / 2,
+    });
+    return {
+      button: !isContextMode || isOpen
+        ? { left: position.x, top: position.y, right: position.x + mainButtonSize, bottom: position.y + mainButtonSize }
+        : null,
+      ring: isOpen ? [...innerItemAnchors, ...outerItemAnchors].map(toItemRect) : [],
+    };
+  }, [position, mainButtonSize, itemSize, isContextMode, isOpen, innerItemAnchors, outerItemAnchors]);
+
+  useManagedMenu(menuId, {
+    isOpen,
+    menuRef,
+    footprint,
+    closeOnOutsideClick: closesOnOutsideClick,
+    onClose: closeMenu,
+    onKeyDown: handleOpenMenuKeyDown,
+  });
+
+  // Item shortcuts and the hotkey work whether the menu is open or not
+  const isApple = useMemo(isApplePlatform, []);
+  const itemShortcuts = useMemo(() => flattenMenuTree(items)
+    .map(({ item, path }) => ({ item, path, shortcut: item.shortcut ? parseShortcut(item.shortcut, isApple) : null }))
+    .filter((entry): entry is { item: RadialMenuItem; path: string[]; shortcut: Shortcut } => entry.shortcut !== null),
+  [items, isApple]);
+  const formattedShortcuts = useMemo(
+    () => new Map(itemShortcuts.map(({ item, shortcut }) => [item.id, { text: formatShortcut(shortcut, isApple), aria: formatAriaShortcut(shortcut) }])),
+    [itemShortcuts, isApple],
+  );
+  const hotkeyText = typeof hotkey === 'string' ? hotkey : hotkey?.shortcut;
+  const hotkeyShortcut = useMemo(() => (hotkeyText ? parseShortcut(hotkeyText, isApple) : null), [hotkeyText, isApple]);
+  const opensAtPointer = isContextMode || (typeof hotkey === 'object' && hotkey.openAt === 'pointer');
+
+  // Runs an item as if it had been picked in the ring; a parent opens the menu at its submenu instead
+  const runItemShortcut = (item: RadialMenuItem, path: string[]) => {
+    if (item.disabled || itemStatuses[item.id]?.state === 'pending') return;
+    if (hasChildren(item)) {
+      setIsOpen(true);
+      dispatchNavigation({ type: 'setPath', path: [...path, item.id] });
+      focusItem(item.children![0].id);
+      return;
+    }
+    // An item that asks first opens the menu on it, where the shortcut or the item confirms
+    const step = confirmFlow.request(item, { isPointer: false, isOpen });
+    if (step === 'open' || step === 'arm') {
+      setIsOpen(true);
+      dispatchNavigation({ type: 'setPath', path: step === 'open' ? [...path, item.id] : path });
+      focusItem(step === 'open' ? getCancelAnswerId(item.id) : item.id);
+      return;
+    }
+    disarmConfirmation();
+    if (preferredAngle !== null) updatePreferences(prev => recordMenuItemUse(prev, item.id));
+    callbacksRef.current.onItemSelect?.({
+      item,
+      path,
+      inputMethod: 'shortcut',
+      timeToSelect: isOpen ? performance.now() - openedAtRef.current : 0,
+    });
+    const checked = item.type ? updateCheckedState(item, getItemsAtPath(items, path)) : undefined;
+    runSelectedItem(item, isOpen ? menuContext ?? undefined : undefined, checked, isOpen && (item.closeOnSelect ?? !item.type));
+  };
+
+  // Where the mouse was last seen, for a hotkey that opens the menu at the pointer
+  const lastPointerRef = useRef<Point | null>(null);
+  useEffect(() => {
+    if (!hotkeyShortcut || !opensAtPointer) return;
+    const handlePointerMove = (event: PointerEvent) => {
+      lastPointerRef.current = { x: event.clientX, y: event.clientY };
+    };
+    window.addEventListener('pointermove', handlePointerMove, { passive: true });
+    return () => window.removeEventListener('pointermove', handlePointerMove);
+  }, [hotkeyShortcut, opensAtPointer]);
+
+  // A floating menu opened at the pointer goes back to where it was once it has closed
+  const returnPositionRef = useRef<Point | null>(null);
+  useEffect(() => {
+    if (ringPhase !== 'closed' || !returnPositionRef.current) return;
+    moveTo(returnPositionRef.current);
+    returnPositionRef.current = null;
+  }, [ringPhase, moveTo]);
+
+  const handleHotkey = () => {
+    if (isOpen) {
+      closeMenu('toggle');
+      return;
+    }
+    const pointer = lastPointerRef.current;
+    if (opensAtPointer && pointer) {
+      if (isContextMode) {
+        setMenuContext(null);
+      } else {
+        returnPositionRef.current ??= position;
+      }
+      const origin = portalTarget ? mapPointToDocument(pointer, document, portalTarget.ownerDocument) : pointer;
+      moveTo({ x: origin.x - mainButtonSize / 2, y: origin.y - mainButtonSize / 2 });
+    }
+    setIsOpen(true);
+    if (arrangedItems.length > 0) focusItem(arrangedItems[0].id);
+  };
+
+  const shortcutHandlers: ShortcutHandler[] = [
+    ...(hotkeyShortcut ? [{ shortcut: hotkeyShortcut, target: 'open menu', onTrigger: handleHotkey }] : []),
+    ...itemShortcuts.map(({ item, path, shortcut }) => ({ shortcut, target: item.label, onTrigger: () => runItemShortcut(item, path) })),
+  ];
+  useShortcuts(shortcutHandlers, {
+    enabled: true,
+    owner: ariaLabel,
+    registry: shortcutRegistry,
+    onConflict: onShortcutConflict,
+    targetWindow: portalTarget?.ownerWindow,
   });
 
-  const handleMainButtonRelease = () => { 
+  const handleTriggerActivate = () => {
+    // Inside a submenu the main button acts as "back"
+    if (isOpen && menuPath.length > 0) {
+      navigateBack();
+    } else if (isOpen && isEditing) {
+      setIsEditing(false);
+    } else if (isOpen) {
+      closeMenu('toggle');
+    } else {
+      setIsOpen(true);
+    }
+  };
+
+  const { handleGestureStart, isRingConcealed } = useMarkingGesture({
+    getCenter: () => {
+      const rect = triggerRef.current?.getBoundingClientRect();
+      return rect ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 } : null;
+    },
+    candidates: activeRingCandidates,
+    deadZoneRadius: markingOptions?.deadZoneRadius ?? 0,
+    moveThreshold: dragThreshold,
+    revealDelay: markingOptions?.revealDelay ?? 0,
+    onCandidateChange: setHoveredItemId,
+    onSelect: id => {
+      const item = activeRingItems.find(candidate => candidate.id === id);
+      if (item) handleItemActivate(item, isSubmenuOpen, 'marking');
+    },
+    // A press without a mark behaves like a click: it opens the ring for pointing, or closes/backs out if it was open
+    onTap: () => {
+      if (wasOpenAtMarkStartRef.current) handleTriggerActivate();
+    },
+    onCancel: () => {
+      setHoveredItemId(null);
+      if (!wasOpenAtMarkStartRef.current) closeMenu('toggle');
+    },
+  });
+
+  const isMoveGesture = (event: React.PointerEvent) =>
+    !!markingOptions?.moveModifier && !!event[markingOptions.moveModifier];
+
+  const handleMainButtonPressStart = (event: React.PointerEvent) => {
+    if (isContextMode) return; // The center of a context menu is only a close button, it can't be dragged
+    if (!markingOptions || isMoveGesture(event)) {
+      handleInteractionStart(event);
+      return;
+    }
+    if (!event.isPrimary || (event.pointerType === 'mouse' && event.button !== 0)) return;
+    wasOpenAtMarkStartRef.current = isOpen;
+    setIsOpen(true);
+    handleGestureStart(event);
+  };
+
+  const handleMainButtonRelease = (event: React.PointerEvent) => { 
+    if (markingOptions) return; // Marking gestures resolve their own release, and modifier-drags never toggle
+    // Ignores a second finger, and e.g. the release of the right-click that just opened a context menu under the pointer
+    if (!event.isPrimary || event.button !== 0) return;
     if (isToggleLocked) return;
 
     if (!hasMovedBeyondThreshold) {
-      setIsOpen(prev => !prev);
+      handleTriggerActivate();
       setIsToggleLocked(true);
       setTimeout(() => setIsToggleLocked(false), TOGGLE_LOCK_DURATION);
     }
   };
 
-  const MainIcon = isOpen ? X : Menu;
+  const handleTriggerKeyDown = (event: React.KeyboardEvent) => {
+    if (!isOpen) {
+      if (!TRIGGER_OPEN_KEYS.includes(event.key)) return;
+      event.preventDefault();
+      setIsOpen(true);
+      if (arrangedItems.length > 0) focusItem(arrangedItems[0].id);
+      return;
+    }
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      handleTriggerActivate();
+    } else if (event.key.startsWith('Arrow') && tabStopId) {
+      event.preventDefault();
+      focusItem(tabStopId);
+    }
+  };
+
+  // Edit mode works on the active ring, like keyboard focus. A dragged item follows the pointer and drops into the
+  // slot nearest to where it's let go.
+  const [itemDrag, setItemDrag] = useState<{ id: string; start: Point; offset: Point | null } | null>(null);
+  const wasItemDraggedRef = useRef(false);
+  const [editAnnouncement, setEditAnnouncement] = useState('');
+  const activeRingKey = isSubmenuOpen ? outerRingKey : innerRingKey;
+
+  // The whole active ring as it is shown, with the page or window on screen in its current slots, and where a slot
+  // of the shown ring falls in it. Moves are stored against the whole ring, not just what's on screen.
+  const getEditedRing = useCallback(() => {
+    const ringIds = (isSubmenuOpen ? rings.outerRingItems : rings.innerRingItems).map(candidate => candidate.id);
+    const shownItems = activeRingItems.filter(candidate => !isMoreItem(candidate));
+    activeRingWindow.indices.forEach((ringIndex, index) => { ringIds[ringIndex] = shownItems[index].id; });
+    const toRingIndex = (shownIndex: number) => {
+      const index = activeRingItems.slice(0, shownIndex).filter(candidate => !isMoreItem(candidate)).length;
+      return activeRingWindow.indices[Math.min(index, activeRingWindow.indices.length - 1)];
+    };
+    return { ringIds, toRingIndex };
+  }, [isSubmenuOpen, rings, activeRingItems, activeRingWindow]);
+
+  const moveEditedItem = useCallback((item: RadialMenuItem, toIndex: number) => {
+    const { ringIds, toRingIndex } = getEditedRing();
+    const ringIndex = toRingIndex(toIndex);
+    updatePreferences(prev => {
+      const moved = moveMenuItem(prev, activeRingKey, ringIds, item.id, ringIndex);
+      // Under adaptive order an item placed by hand stays where it was put
+      return preferredAngle === null ? moved : setMenuItemFlag(moved, 'pinned', item.id, true);
+    });
+    setEditAnnouncement(`${item.label} moved to position ${ringIndex + 1} of ${ringIds.length}`);
+  }, [getEditedRing, activeRingKey, preferredAngle, updatePreferences]);
+
+  const toggleEditedItemFlag = useCallback((item: RadialMenuItem, flag: 'hidden' | 'pinned') => {
+    const value = !preferences[flag].includes(item.id);
+    const { ringIds } = getEditedRing();
+    updatePreferences(prev => setMenuItemFlag(
+      // Pinning keeps the item in the slot usage gave it, so that becomes its place in the stored order too
+      flag === 'pinned' ? moveMenuItem(prev, activeRingKey, ringIds, item.id, ringIds.indexOf(item.id)) : prev,
+      flag,
+      item.id,
+      value,
+    ));
+    setEditAnnouncement(`${item.label} ${flag === 'hidden' ? (value ? 'hidden' : 'shown') : (value ? 'pinned' : 'unpinned')}`);
+  }, [preferences, getEditedRing, activeRingKey, updatePreferences]);
+
+  const handleResetPreferences = useCallback(() => {
+    resetPreferences();
+    setRankedUsage({});
+    setEditAnnouncement('Menu reset to its default arrangement');
+  }, [resetPreferences]);
+
+  // Returns true when the key was handled
+  const handleEditKey = useCallback((event: React.KeyboardEvent, item: RadialMenuItem): boolean => {
+    const step = event.shiftKey ? ARROW_KEY_STEPS[event.key] : undefined;
+    if (step) {
+      event.preventDefault();
+      const toIndex = activeRingItems.findIndex(candidate => candidate.id === item.id) + step;
+      if (toIndex >= 0 && toIndex < activeRingItems.length && !isMoreItem(activeRingItems[toIndex])) {
+        moveEditedItem(item, toIndex);
+        focusItem(item.id);
+      }
+      return true;
+    }
+    if (event.ctrlKey || event.metaKey || event.altKey) return false;
+    const key = event.key.toLowerCase();
+    if (key !== 'h' && (key !== 'p' || preferredAngle === null)) return false;
+    event.preventDefault();
+    toggleEditedItemFlag(item, key === 'h' ? 'hidden' : 'pinned');
+    return true;
+  }, [activeRingItems, moveEditedItem, toggleEditedItemFlag, focusItem, preferredAngle]);
+
+  const handleEditPointerDown = useCallback((event: React.PointerEvent<HTMLElement>, itemId: string) => {
+    if (!event.isPrimary || (event.pointerType === 'mouse' && event.button !== 0)) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    wasItemDraggedRef.current = false;
+    setItemDrag({ id: itemId, start: { x: event.clientX, y: event.clientY }, offset: null });
+  }, []);
+
+  const handleEditPointerMove = useCallback((event: React.PointerEvent) => {
+    const { clientX, clientY } = event;
+    setItemDrag(prev => {
+      if (!prev) return prev;
+      const offset = { x: clientX - prev.start.x, y: clientY - prev.start.y };
+      return prev.offset || Math.hypot(offset.x, offset.y) > dragThreshold ? { ...prev, offset } : prev;
+    });
+  }, [dragThreshold]);
+
+  const handleEditPointerUp = useCallback(() => {
+    setItemDrag(null);
+    const fromIndex = itemDrag ? activeRingItems.findIndex(candidate => candidate.id === itemDrag.id) : -1;
+    if (!itemDrag?.offset || fromIndex < 0) return;
+    wasItemDraggedRef.current = true; // The click that follows the release doesn't activate the item
+    const toIndex = findDropSlot(activeRingPositions, fromIndex, itemDrag.offset);
+    if (toIndex !== fromIndex) moveEditedItem(activeRingItems[fromIndex], toIndex);
+  }, [itemDrag, activeRingItems, activeRingPositions, moveEditedItem]);
+
+  const draggedItemIndex = itemDrag?.offset ? activeRingItems.findIndex(item => item.id === itemDrag.id) : -1;
+  const dropSlotIndex = itemDrag?.offset && draggedItemIndex >= 0
+    ? findDropSlot(activeRingPositions, draggedItemIndex, itemDrag.offset)
+    : -1;
+
+  // Returns true when the key was handled. PageUp and PageDown scroll a ring that overflows, and so do the arrow
+  // keys past either end of what's shown, instead of wrapping around.
+  const handleOverflowKey = useCallback((event: React.KeyboardEvent, item: RadialMenuItem, isInOuterRing: boolean): boolean => {
+    const ringWindow = isInOuterRing ? outerWindow : innerWindow;
+    if (ringWindow.pageCount <= 1 || event.shiftKey || event.ctrlKey || event.metaKey || event.altKey) return false;
+    const pageStep = event.key === 'PageDown' ? 1 : (event.key === 'PageUp' ? -1 : 0);
+    const arrowStep = ARROW_KEY_STEPS[event.key] ?? 0;
+    const focusIndex = orderedActiveItemIds.indexOf(item.id);
+    const isPastEnd = arrowStep !== 0 && focusIndex === (arrowStep > 0 ? orderedActiveItemIds.length - 1 : 0);
+    if (pageStep === 0 && !isPastEnd) return false;
+    event.preventDefault();
+    const direction = pageStep || arrowStep;
+    const next = scrollRing(isInOuterRing, overflow === 'rotate' && pageStep !== 0 ? pageStep * ringWindow.items.length : direction);
+    // Focus carries on in the same direction: onto a page from the end it was entered at, or onto the item that
+    // just rotated into view
+    const enteringItem = (overflow === 'rotate') === (direction > 0) ? next.items[next.items.length - 1] : next.items[0];
+    if (enteringItem) focusItem(enteringItem.id);
+    return true;
+  }, [outerWindow, innerWindow, orderedActiveItemIds, scrollRing, overflow, focusItem]);
 
-  const memoizedItems = useMemo(() => {
-    return items.map((item, index) => {
-      const pos = itemPositions[index];
+  // The mouse wheel scrolls the active ring while the pointer is over the menu; two-finger swipes on a trackpad
+  // arrive as wheel events too. The listener isn't passive so the page doesn't scroll along.
+  const canScrollActiveRing = isOpen && activeRingWindow.pageCount > 1;
+  const wheelDistanceRef = useRef(0);
+  useEffect(() => {
+    const element = menuRef.current;
+    if (!element || !canScrollActiveRing) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+      wheelDistanceRef.current += delta * (event.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1);
+      const stepDistance = overflow === 'pages' ? WHEEL_PAGE_DISTANCE : WHEEL_ITEM_DISTANCE;
+      const steps = Math.trunc(wheelDistanceRef.current / stepDistance);
+      if (steps === 0) return;
+      wheelDistanceRef.current -= steps * stepDistance;
+      scrollRing(isSubmenuOpen, overflow === 'pages' ? Math.sign(steps) : steps);
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [canScrollActiveRing, overflow, scrollRing, isSubmenuOpen]);
+
+  // focusItem from the handle can ask for an item on another page; its ring scrolls there once it's laid out
+  const revealItemIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const itemId = revealItemIdRef.current;
+    if (!itemId || overflow === 'squeeze') return;
+    const ring = [
+      { key: innerRingKey, items: rings.innerRingItems, capacity: innerCapacity },
+      { key: outerRingKey, items: rings.outerRingItems, capacity: outerCapacity },
+    ].find(candidate => candidate.items.some(candidateItem => candidateItem.id === itemId) && isFinite(candidate.capacity));
+    if (!ring) return;
+    revealItemIdRef.current = null;
+    const index = ring.items.findIndex(candidateItem => candidateItem.id === itemId);
+    setRingOffsets(prev => {
+      const offset = prev[ring.key] ?? 0;
+      const revealed = revealRingIndex(ring.items, ring.capacity, overflow, offset, index);
+      return revealed === offset ? prev : { ...prev, [ring.key]: revealed };
+    });
+  }, [overflow, innerRingKey, rings.innerRingItems, innerCapacity, outerRingKey, rings.outerRingItems, outerCapacity]);
+
+  useImperativeHandle(ref, () => ({
+    open: () => setIsOpen(true),
+    close: () => closeMenu('api'),
+    toggle: () => (isOpen ? closeMenu('api') : setIsOpen(true)),
+    moveTo: center => moveTo({ x: center.x - mainButtonSize / 2, y: center.y - mainButtonSize / 2 }),
+    focusItem: itemId => {
+      const path = findItemPath(arrangedItems, itemId);
+      if (!path) return;
+      setIsOpen(true);
+      dispatchNavigation({ type: 'setPath', path });
+      revealItemIdRef.current = itemId;
+      focusItem(itemId);
+    },
+    startEditing: () => {
+      dispatchNavigation({ type: 'reset' });
+      setIsEditing(true);
+    },
+    stopEditing: () => setIsEditing(false),
+    resetPreferences: handleResetPreferences,
+  }), [isOpen, arrangedItems, mainButtonSize, closeMenu, moveTo, focusItem, setIsOpen, setIsEditing, handleResetPreferences]);
+
+  const isEditingRoot = isOpen && isEditing && menuPath.length === 0;
+  const triggerLabel = !isOpen
+    ? `Open ${ariaLabel}`
+    : (menuPath.length > 0 ? 'Back' : (isEditing ? 'Done editing' : `Close ${ariaLabel}`));
+
+  const MainIcon = !isOpen ? Menu : (menuPath.length > 0 ? ChevronLeft : (isEditingRoot ? Check : X));
+  const breadcrumb = openedParents.map(parent => parent.label).join(BREADCRUMB_SEPARATOR);
+
+  const renderRingItems = useCallback((
+    ringItems: RadialMenuItem[],
+    ringPositions: ItemPosition[],
+    isInOuterRing: boolean,
+    phase: PresencePhase,
+  ) => {
+    // When a submenu is open, the inner ring stays visible for context but recedes, except for the opened parent.
+    const isRingReceded = !isInOuterRing && activeParent !== null;
+    const isRingShown = isOpen && (phase === 'entering' || phase === 'open');
+    const angularRanks = getAngularRanks(ringPositions);
+
+    return ringItems.map((item, index) => {
+      const pos = ringPositions[index];
       if (!pos) return null;
 
+      // Items enter clockwise and leave in the reverse order; the delay is dropped once settled so hover reacts at once
+      const rank = angularRanks[index] ?? 0;
+      const staggerIndex = phase === 'entering' ? rank : (phase === 'exiting' ? ringPositions.length - 1 - rank : 0);
+
       const isHovered = item.id === hoveredItemId;
+      const isOpenedParent = item.id === activeParent?.id && !isInOuterRing;
+      const isInActiveRing = isInOuterRing === isSubmenuOpen;
+      const isDisabled = !!item.disabled;
+      const isChecked = isItemChecked(item);
+      const actionStatus = itemStatuses[item.id];
+      const errorMessage = actionStatus?.state === 'error' ? actionStatus.message : undefined;
+      const confirmation = confirmFlow.getConfirmation(item.id);
+      const confirmMessage = confirmation?.state === 'armed' ? confirmation.message : undefined;
+      const itemDescription = confirmMessage ?? item.description;
+      const descriptionId = item.description ? `${menuId}-${item.id}-description` : undefined;
+      const disabledReasonId = isDisabled && item.disabledReason ? `${menuId}-${item.id}-disabled-reason` : undefined;
+      const describedBy = [descriptionId, disabledReasonId].filter(Boolean).join(' ') || undefined;
+      const ItemIcon = actionStatus?.state === 'pending' ? Loader2 : (errorMessage ? AlertCircle : item.icon);
+      const itemTitle = errorMessage ?? confirmMessage ?? (isDisabled && item.disabledReason ? item.disabledReason : item.label);
+      const matchedIndices = searchHighlights?.get(item.id) ?? NO_MATCHED_INDICES;
+      const mnemonic = (isInActiveRing && activeMnemonics.get(item.id)) || null;
+      const shortcut = formattedShortcuts.get(item.id);
+      const isEditable = isEditing && isInActiveRing && !isMoreItem(item);
+      const isHidden = isEditing && preferences.hidden.includes(item.id);
+      const isPinned = preferredAngle !== null && preferences.pinned.includes(item.id);
+      const isDragged = isEditable && index === draggedItemIndex;
+      const keyShortcuts = (isEditable
+        ? ['Shift+ArrowLeft', 'Shift+ArrowRight', 'H', preferredAngle !== null && 'P']
+        : [shortcut?.aria, mnemonic?.toUpperCase()]).filter(Boolean).join(' ') || undefined;
       
-      const itemStyleX = mainButtonSize / 2 + pos.x - itemSize / 2;
-      const itemStyleY = mainButtonSize / 2 + pos.y - itemSize / 2;
-
-      const itemContainerScale = isOpen ? (isHovered ? hoverScale : 1) : 0.5;
+      const itemOrigin = mainButtonSize / 2 - itemSize / 2; // Items are placed by transform, relative to the center
+      const itemMotion = getItemMotion(
+        motion.preset,
+        isDragged && itemDrag?.offset ? { x: pos.x + itemDrag.offset.x, y: pos.y + itemDrag.offset.y } : pos,
+        isRingShown,
+        isHovered && !isWedgeShape ? hoverScale : 1, // A wedge highlights instead
+      );
       
       // Determine if the special layout for description (flex-start, padding) is active
-      const isDescriptionLayoutActive = isHovered && isOpen && item.description;
+      const isDescriptionLayoutActive = isHovered && isOpen && itemDescription && !hasOutsideLabels && !isWedgeShape;
 
       // Scale content if item is hovered and menu is open
-      const contentScale = (isHovered && isOpen) ? HOVER_CONTENT_SCALE_FACTOR : 1;
+      const contentScale = isDescriptionLayoutActive ? HOVER_CONTENT_SCALE_FACTOR : 1;
       const displayedIconSize = itemIconSize * contentScale;
       const descriptionFontSize = (itemIconSize * 0.45) * contentScale; // Base size * 0.45, then scaled
 
@@ -111,117 +1328,602 @@ export const RadialMenu: React.FC<RadialMenuProps> = ({
       return (
         <div // Item Container (Outer circle)
           key={item.id}
+          ref={element => registerItem(item.id, element)}
+          id={`${menuId}-${item.id}`}
+          role={item.type === 'checkbox' ? 'menuitemcheckbox' : (item.type === 'radio' ? 'menuitemradio' : 'menuitem')}
+          tabIndex={isInActiveRing && item.id === tabStopId ? 0 : -1}
+          aria-label={isEditable ? [item.label, isHidden && 'hidden', isPinned && 'pinned'].filter(Boolean).join(', ') : item.label}
+          aria-describedby={describedBy}
+          aria-checked={item.type ? isChecked : undefined}
+          aria-disabled={isDisabled || undefined}
+          aria-busy={actionStatus?.state === 'pending' || undefined}
+          aria-haspopup={hasChildren(item) ? 'menu' : undefined}
+          aria-expanded={hasChildren(item) ? isOpenedParent : undefined}
+          aria-controls={isOpenedParent ? submenuId : undefined}
+          aria-keyshortcuts={keyShortcuts}
           style={{
             position: 'absolute',
             width: itemSize, 
             height: itemSize, 
-            left: `${itemStyleX}px`,
-            top: `${itemStyleY}px`,
-            opacity: isOpen ? 1 : 0,
-            transform: `scale(${itemContainerScale})`,
+            left: `${itemOrigin}px`,
+            top: `${itemOrigin}px`,
+            opacity: itemMotion.opacity
+              * (isRingReceded && !isOpenedParent && !isHovered ? INACTIVE_PARENT_RING_OPACITY : 1)
+              * (isHidden ? HIDDEN_ITEM_OPACITY : 1)
+              * (isDisabled ? DISABLED_ITEM_OPACITY : 1),
+            transform: itemMotion.transform,
             transformOrigin: 'center center',
             transitionProperty: 'opacity, transform, z-index, padding', 
-            transitionDuration: '0.3s',
-            transitionTimingFunction: isOpen ? 'cubic-bezier(0.175, 0.885, 0.32, 1.275)' : 'ease-out',
-            zIndex: isHovered ? 10 : 5,
+            transitionDuration: motion.preset === 'none' || isDragged ? '0ms' : 'var(--rm-duration)',
+            transitionDelay: `${staggerIndex * motion.stagger}ms`,
+            transitionTimingFunction: isOpen ? 'var(--rm-easing)' : 'var(--rm-exit-easing)',
+            zIndex: isDragged ? 20 : (isHovered ? 10 : 5),
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'center',
-            padding: currentPaddingOnItemContainer,
+            padding: renderItem ? 0 : currentPaddingOnItemContainer,
+            // The wedge layer underneath does the pointer hit-testing; items only take pointers to be dragged
+            pointerEvents: isWedgeShape && !isEditable ? 'none' : undefined,
+            ...themeToCssVariables(item.theme),
+          }}
+          className={[
+            'radial-menu__item',
+            hasChildren(item) && 'radial-menu__item--parent',
+            isOpenedParent && 'radial-menu__item--opened',
+            renderItem && 'radial-menu__item--custom',
+            isWedgeShape && 'radial-menu__item--wedge',
+            isChecked && 'radial-menu__item--checked',
+            isDisabled && 'radial-menu__item--disabled',
+            actionStatus && `radial-menu__item--${actionStatus.state}`,
+            confirmation?.state === 'armed' && !confirmation.isHint && 'radial-menu__item--armed',
+            confirmation?.state === 'held' && 'radial-menu__item--held',
+            isEditable && 'radial-menu__item--editable',
+            isDragged && 'radial-menu__item--dragging',
+            isEditable && !isDragged && index === dropSlotIndex && 'radial-menu__item--drop-target',
+          ].filter(Boolean).join(' ')}
+          // The description (or the callout) already shows the label while hovered
+          title={isHovered && isOpen && (hasOutsideLabels || (itemDescription && (itemTitle === item.label || itemTitle === confirmMessage)))
+            ? ''
+            : (shortcut ? `${itemTitle} (${shortcut.text})` : itemTitle)}
+          onPointerEnter={() => isOpen && setHoveredItemId(item.id)}
+          onPointerLeave={() => {
+            if (isOpen) setHoveredItemId(null);
+            if (confirmation?.state === 'held') confirmFlow.cancelHold();
+          }}
+          onFocus={() => {
+            // Focus mirrors hover so keyboard users see the description too
+            setHoveredItemId(item.id);
+            focusItem(item.id);
+          }}
+          onBlur={() => setHoveredItemId(prev => (prev === item.id ? null : prev))}
+          onPointerDown={event => (isEditable ? handleEditPointerDown(event, item.id) : confirmFlow.handleHoldStart(event, item))}
+          onPointerMove={isEditable ? handleEditPointerMove : undefined}
+          onPointerUp={isEditable ? handleEditPointerUp : confirmFlow.cancelHold}
+          onPointerCancel={isEditable ? () => setItemDrag(null) : confirmFlow.cancelHold}
+          onKeyDown={event => {
+            if (isEditable && handleEditKey(event, item)) return;
+            if (isInActiveRing && handleOverflowKey(event, item, isInOuterRing)) return;
+            if (handleNavigationKey(event)) return;
+            if (event.key === 'Enter' || event.key === ' ') {
+              event.preventDefault();
+              handleItemActivate(item, isInOuterRing, 'keyboard');
+            }
           }}
-          className="rounded-full bg-sky-500 hover:bg-sky-600 text-white shadow-lg cursor-pointer"
-          title={!isHovered || !isOpen || !item.description ? item.label : ''}
-          onMouseEnter={() => isOpen && setHoveredItemId(item.id)}
-          onMouseLeave={() => isOpen && setHoveredItemId(null)}
           onClick={() => {
-            item.action?.();
-            setIsOpen(false); 
-            setHoveredItemId(null);
+            if (wasItemDraggedRef.current) {
+              wasItemDraggedRef.current = false;
+              return;
+            }
+            handleItemActivate(item, isInOuterRing, 'pointer');
           }}
         >
-          <div // Content Wrapper (Inner flex container)
-            style={{
-              width: '100%', 
-              height: '100%',
-              transitionProperty: 'padding-top', 
-              transitionDuration: '0.3s',
-              transitionTimingFunction: 'cubic-bezier(0.175, 0.885, 0.32, 1.275)',
-              display: 'flex',
-              flexDirection: 'column',
-              alignItems: 'center', 
-              justifyContent: isDescriptionLayoutActive ? 'flex-start' : 'center', 
-              textAlign: 'center',
-              paddingTop: currentContentWrapperPaddingTop, 
-              overflow: 'hidden', 
-              borderRadius: 'inherit',
-            }}
-          >
-            <div style={{ flexShrink: 0 }}> {/* Icon wrapper */}
-              <item.icon size={displayedIconSize} />
-            </div>
-            {isDescriptionLayoutActive && ( // Only render span if description layout is active
-              <span style={{ 
-                fontSize: `${descriptionFontSize}px`, 
-                marginTop: currentTextMarginTop, 
-                lineHeight: '1.2', 
-                userSelect: 'none',
-                width: '90%', 
-                textAlign: 'center',
-                whiteSpace: 'normal', 
-                wordBreak: 'break-word',
-              }}>
-                {item.description}
-              </span>
-            )}
-          </div>
+          {descriptionId && (
+            <span id={descriptionId} className="radial-menu__visually-hidden">{item.description}</span>
+          )}
+          {disabledReasonId && (
+            <span id={disabledReasonId} className="radial-menu__visually-hidden">{item.disabledReason}</span>
+          )}
+          {errorMessage && (
+            <span role="alert" className="radial-menu__visually-hidden">{`${item.label}: ${errorMessage}`}</span>
+          )}
+          {confirmMessage && (
+            <span role="status" className="radial-menu__visually-hidden">{`${item.label}: ${confirmMessage}`}</span>
+          )}
+          {renderItem ? renderItem(item, {
+            isOpen,
+            isHovered,
+            isOpenedParent,
+            hasChildren: hasChildren(item),
+            iconSize: itemIconSize,
+            isDisabled,
+            isChecked,
+            isHidden,
+            status: actionStatus?.state ?? 'idle',
+            matchedIndices,
+            mnemonic,
+            shortcut: shortcut?.text ?? null,
+            confirmation: confirmation?.state ?? null,
+          }) : (
+            <>
+              <div // Content Wrapper (Inner flex container)
+                style={{
+                  width: '100%', 
+                  height: '100%',
+                  transitionProperty: 'padding-top', 
+                  transitionDuration: 'var(--rm-duration)',
+                  transitionTimingFunction: 'var(--rm-easing)',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center', 
+                  justifyContent: isDescriptionLayoutActive ? 'flex-start' : 'center', 
+                  textAlign: 'center',
+                  paddingTop: currentContentWrapperPaddingTop, 
+                  overflow: 'hidden', 
+                  borderRadius: 'inherit',
+                }}
+              >
+                <div style={{ flexShrink: 0 }}> {/* Icon wrapper */}
+                  <ItemIcon
+                    size={displayedIconSize}
+                    className={actionStatus?.state === 'pending' ? 'radial-menu__spinner' : undefined}
+                  />
+                </div>
+                {isDescriptionLayoutActive && ( // Only render span if description layout is active
+                  <span aria-hidden="true" style={{ 
+                    fontSize: `${descriptionFontSize}px`, 
+                    marginTop: currentTextMarginTop, 
+                    lineHeight: '1.2', 
+                    userSelect: 'none',
+                    width: '90%', 
+                    textAlign: 'center',
+                    whiteSpace: 'normal', 
+                    wordBreak: 'break-word',
+                  }}>
+                    {itemDescription}
+                  </span>
+                )}
+              </div>
+              {item.badge !== undefined && !isEditable && (
+                <span aria-hidden="true" className="radial-menu__badge">{item.badge}</span>
+              )}
+              {isChecked && (
+                <span aria-hidden="true" className="radial-menu__check-indicator">
+                  {item.type === 'radio' ? <Circle size={6} fill="currentColor" /> : <Check size={10} strokeWidth={3} />}
+                </span>
+              )}
+              {mnemonic && (
+                <span aria-hidden="true" className="radial-menu__mnemonic">{mnemonic.toUpperCase()}</span>
+              )}
+              {(searchHighlights || isWedgeShape) && !hasOutsideLabels && (
+                <span aria-hidden="true" className="radial-menu__item-label">
+                  <HighlightedLabel label={item.label} matchedIndices={matchedIndices} />
+                </span>
+              )}
+            </>
+          )}
+          {confirmation?.state === 'held' && (
+            <svg aria-hidden="true" className="radial-menu__hold-progress" viewBox="0 0 100 100">
+              <circle cx="50" cy="50" r="48" pathLength={1} style={{ animationDuration: `${confirmation.duration}ms` }} />
+            </svg>
+          )}
+          {/* Pointer shortcuts for H and P; keyboard users get those through aria-keyshortcuts */}
+          {isEditable && (
+            <button
+              type="button"
+              tabIndex={-1}
+              aria-hidden="true"
+              title={isHidden ? `Show ${item.label}` : `Hide ${item.label}`}
+              className="radial-menu__edit-toggle radial-menu__edit-toggle--visibility"
+              onPointerDown={event => event.stopPropagation()}
+              onClick={event => {
+                event.stopPropagation();
+                toggleEditedItemFlag(item, 'hidden');
+              }}
+            >
+              {isHidden ? <EyeOff size={10} /> : <Eye size={10} />}
+            </button>
+          )}
+          {isEditable && preferredAngle !== null && (
+            <button
+              type="button"
+              tabIndex={-1}
+              aria-hidden="true"
+              title={isPinned ? `Unpin ${item.label}` : `Keep ${item.label} in this slot`}
+              className={`radial-menu__edit-toggle radial-menu__edit-toggle--pin${isPinned ? ' radial-menu__edit-toggle--active' : ''}`}
+              onPointerDown={event => event.stopPropagation()}
+              onClick={event => {
+                event.stopPropagation();
+                toggleEditedItemFlag(item, 'pinned');
+              }}
+            >
+              <Pin size={10} />
+            </button>
+          )}
         </div>
       );
     });
-  }, [items, itemPositions, isOpen, mainButtonSize, itemSize, itemIconSize, hoveredItemId, hoverScale]);
+  }, [
+    isOpen, mainButtonSize, itemSize, itemIconSize, hoveredItemId, hoverScale, activeParent, handleItemActivate,
+    isSubmenuOpen, menuId, submenuId, tabStopId, registerItem, focusItem, handleNavigationKey, setHoveredItemId,
+    renderItem, isItemChecked, itemStatuses, motion.preset, motion.stagger, searchHighlights, confirmFlow,
+    hasOutsideLabels, activeMnemonics, formattedShortcuts, isEditing, preferences, preferredAngle, itemDrag,
+    draggedItemIndex, dropSlotIndex, handleEditPointerDown, handleEditPointerMove, handleEditPointerUp, handleEditKey,
+    toggleEditedItemFlag, isWedgeShape, handleOverflowKey,
+  ]);
+
+  const memoizedInnerItems = useMemo(
+    () => renderRingItems(innerRingItems, innerItemAnchors, false, ringPhase),
+    [renderRingItems, innerRingItems, innerItemAnchors, ringPhase],
+  );
+  const memoizedOuterItems = useMemo(
+    () => renderRingItems(outerRingItems, outerItemAnchors, true, submenuPhase),
+    [renderRingItems, outerRingItems, outerItemAnchors, submenuPhase],
+  );
+
+  // With a spring configured the rings trail the main button while it's dragged, then catch up
+  const springPosition = useSpringFollow(position, isDragging, motion.spring);
+
+  // Outside labels are only drawn for the active ring: the receded parent ring's would run through the submenu
+  const { sizes: ringLabelSizes, registerElement: registerRingLabel } = useMeasuredSizes();
+  const activeRingPhase = isSubmenuOpen ? submenuPhase : ringPhase;
+  const ringLabelPlacements = useMemo(() => (hasOutsideLabels ? placeRadialLabels(
+    activeRingPositions,
+    activeRingItems.map(item => ringLabelSizes[item.id] ?? { width: 0, height: 0 }),
+    { itemSize: isWedgeShape ? wedgeBandWidth : itemSize, gap: RING_LABEL_GAP, spacing: RING_LABEL_SPACING },
+  ) : []), [hasOutsideLabels, activeRingPositions, activeRingItems, ringLabelSizes, itemSize, isWedgeShape, wedgeBandWidth]);
+
+  // The hovered item's callout replaces its label, and also carries the description and any error or disabled reason
+  const calloutItemIndex = hasOutsideLabels && isOpen ? activeRingItems.findIndex(item => item.id === hoveredItemId) : -1;
+  const calloutItem = calloutItemIndex >= 0 ? activeRingItems[calloutItemIndex] : null;
+  const calloutAnchor = calloutItemIndex >= 0 ? activeRingPositions[calloutItemIndex] : undefined;
+  const calloutStatus = calloutItem ? itemStatuses[calloutItem.id] : undefined;
+  const calloutConfirmation = calloutItem ? confirmFlow.getConfirmation(calloutItem.id) : null;
+  const calloutNote = calloutStatus?.state === 'error'
+    ? calloutStatus.message
+    : (calloutConfirmation?.state === 'armed'
+      ? calloutConfirmation.message
+      : (calloutItem?.disabled ? calloutItem.disabledReason : undefined));
+
+  const ringContainerStyle: React.CSSProperties = {
+    top: `0px`, 
+    left: `0px`,
+    width: `${mainButtonSize}px`,
+    height: `${mainButtonSize}px`,
+    pointerEvents: isOpen ? 'auto' : 'none',
+    // While a mark is being drawn quickly the ring stays invisible, but it is laid out so the angles are known
+    opacity: isRingConcealed ? 0 : 1,
+    transform: `translate(${springPosition.x - position.x}px, ${springPosition.y - position.y}px)`,
+  };
+
+  // Wedge rings are hit-tested by angle and distance from the center: inside the dead zone is a cancel, and a
+  // submenu ring takes everything beyond the ring it grew from
+  const wedgeDeadZoneRadius = markingOptions?.deadZoneRadius ?? mainButtonSize / 2;
+  const innerWedgeExtent = innerWedges.reduce((max, wedge) => Math.max(max, wedge.outerRadius), 0);
+  const wedgeHitRadius = [...innerWedges, ...outerWedges].reduce((max, wedge) => Math.max(max, wedge.outerRadius), 0) + itemSize / 2;
+
+  const findWedgeTarget = (event: React.PointerEvent | React.MouseEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = { x: event.clientX - rect.left - rect.width / 2, y: event.clientY - rect.top - rect.height / 2 };
+    if (Math.hypot(point.x, point.y) < wedgeDeadZoneRadius) return 'dead-zone' as const;
+    const outerIndex = isSubmenuOpen ? findWedgeAt(point, outerWedges, innerWedgeExtent, Infinity) : -1;
+    if (outerIndex >= 0) return { item: outerRingItems[outerIndex], isInOuterRing: true };
+    const innerIndex = findWedgeAt(point, innerWedges, wedgeDeadZoneRadius, isSubmenuOpen ? innerWedgeExtent : Infinity);
+    return innerIndex >= 0 ? { item: innerRingItems[innerIndex], isInOuterRing: false } : null;
+  };
+
+  const handleWedgePointerMove = (event: React.PointerEvent) => {
+    if (!isOpen) return;
+    const target = findWedgeTarget(event);
+    const targetId = target && target !== 'dead-zone' ? target.item.id : null;
+    setHoveredItemId(targetId);
+    if (confirmFlow.heldItemId !== null && confirmFlow.heldItemId !== targetId) cancelHold();
+  };
+
+  const handleWedgePointerDown = (event: React.PointerEvent) => {
+    const target = findWedgeTarget(event);
+    if (target && target !== 'dead-zone') confirmFlow.handleHoldStart(event, target.item);
+  };
+
+  const handleWedgeClick = (event: React.MouseEvent) => {
+    const target = findWedgeTarget(event);
+    if (target === 'dead-zone') {
+      handleTriggerActivate();
+    } else if (target) {
+      handleItemActivate(target.item, target.isInOuterRing, 'pointer');
+    }
+  };
+
+  const renderWedges = (ringItems: RadialMenuItem[], wedges: Wedge[], isInOuterRing: boolean, phase: PresencePhase) => {
+    const isRingReceded = !isInOuterRing && activeParent !== null;
+    const isRingShown = isOpen && (phase === 'entering' || phase === 'open');
+    return ringItems.map((item, index) => {
+      const wedge = wedges[index];
+      if (!wedge) return null;
+      const isHovered = item.id === hoveredItemId;
+      const isOpenedParent = item.id === activeParent?.id && !isInOuterRing;
+      const actionState = itemStatuses[item.id]?.state;
+      const confirmation = confirmFlow.getConfirmation(item.id);
+      return (
+        <path
+          key={item.id}
+          d={describeWedgePath(wedge, WEDGE_GAP)}
+          className={[
+            'radial-menu__wedge',
+            hasChildren(item) && 'radial-menu__wedge--parent',
+            isHovered && 'radial-menu__wedge--hovered',
+            isOpenedParent && 'radial-menu__wedge--opened',
+            isItemChecked(item) && 'radial-menu__wedge--checked',
+            item.disabled && 'radial-menu__wedge--disabled',
+            actionState && `radial-menu__wedge--${actionState}`,
+            confirmation?.state === 'armed' && !confirmation.isHint && 'radial-menu__wedge--armed',
+            confirmation?.state === 'held' && 'radial-menu__wedge--held',
+          ].filter(Boolean).join(' ')}
+          style={{
+            opacity: (isRingShown ? 1 : 0)
+              * (isRingReceded && !isOpenedParent && !isHovered ? INACTIVE_PARENT_RING_OPACITY : 1)
+              * (isEditing && preferences.hidden.includes(item.id) ? HIDDEN_ITEM_OPACITY : 1)
+              * (item.disabled ? DISABLED_ITEM_OPACITY : 1),
+            ...themeToCssVariables(item.theme),
+          }}
+        />
+      );
+    });
+  };
 
 
-  return (
+  const menu = (
     <div
       ref={menuRef}
+      className={`radial-menu${isContextMode ? ' radial-menu--context' : ''}`}
+      onPointerDownCapture={bringToFront}
       style={{
+        ...themeVariables,
         position: 'fixed',
         left: `${position.x}px`,
         top: `${position.y}px`,
         width: mainButtonSize,
         height: mainButtonSize,
-        zIndex: 1000,
+        zIndex: BASE_Z_INDEX + stackIndex,
         touchAction: 'none', 
+        // Hidden until the starting position is known, which is only after mount
+        visibility: isPlaced ? undefined : 'hidden',
       }}
     >
-      <button
-        type="button"
-        onMouseDown={handleInteractionStart}
-        onTouchStart={handleInteractionStart}
-        onMouseUp={handleMainButtonRelease}
-        onTouchEnd={handleMainButtonRelease}
-        style={{
-          width: mainButtonSize,
-          height: mainButtonSize,
-          position: 'relative',
-          zIndex: 1,
-        }}
-        className="rounded-full bg-indigo-600 hover:bg-indigo-700 text-white flex items-center justify-center shadow-xl cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-indigo-400"
-      >
-        <MainIcon size={mainIconSize} />
-      </button>
-
-      <div 
-        className="absolute"
-        style={{
-          top: `0px`, 
-          left: `0px`,
-          width: `${mainButtonSize}px`,
-          height: `${mainButtonSize}px`,
-          pointerEvents: isOpen ? 'auto' : 'none',
-        }}
+      {/* A context menu has no resting button: it only exists while open, centered on the pointer */}
+      {(!isContextMode || isOpen) && (
+        <button
+          ref={triggerRef}
+          type="button"
+          aria-haspopup="menu"
+          aria-expanded={isOpen}
+          aria-controls={menuId}
+          aria-label={triggerLabel}
+          onKeyDown={handleTriggerKeyDown}
+          onPointerDown={handleMainButtonPressStart}
+          onPointerUp={handleMainButtonRelease}
+          style={{
+            width: mainButtonSize,
+            height: mainButtonSize,
+            position: 'relative',
+            zIndex: 1,
+          }}
+          className={`radial-menu__trigger${renderTrigger ? ' radial-menu__trigger--custom' : ''}`}
+        >
+          {renderTrigger ? renderTrigger({
+            isOpen,
+            isInSubmenu: menuPath.length > 0,
+            breadcrumb: openedParents.map(parent => parent.label),
+            defaultIcon: <MainIcon size={mainIconSize} />,
+            page: activeRingWindow.page,
+            pageCount: activeRingWindow.pageCount,
+          }) : (
+            <>
+              <MainIcon size={mainIconSize} />
+              {canScrollActiveRing && (
+                <span aria-hidden="true" className="radial-menu__page-indicator">
+                  {activeRingWindow.pageCount > MAX_PAGE_DOTS
+                    ? `${activeRingWindow.page + 1}/${activeRingWindow.pageCount}`
+                    : Array.from({ length: activeRingWindow.pageCount }, (_, page) => (
+                      <span
+                        key={page}
+                        className={`radial-menu__page-dot${page === activeRingWindow.page ? ' radial-menu__page-dot--active' : ''}`}
+                      />
+                    ))}
+                </span>
+              )}
+            </>
+          )}
+        </button>
+      )}
+      {isOpen && (
+        <span aria-live="polite" className="radial-menu__visually-hidden">
+          {canScrollActiveRing && `Page ${activeRingWindow.page + 1} of ${activeRingWindow.pageCount}`}
+        </span>
+      )}
+
+      {markingOptions?.showDragHandle && (
+        <div
+          aria-hidden="true"
+          onPointerDown={handleInteractionStart}
+          style={{
+            position: 'absolute',
+            width: mainButtonSize * DRAG_HANDLE_SIZE_FACTOR,
+            height: mainButtonSize * DRAG_HANDLE_SIZE_FACTOR,
+            right: -mainButtonSize * DRAG_HANDLE_SIZE_FACTOR / 4,
+            top: -mainButtonSize * DRAG_HANDLE_SIZE_FACTOR / 4,
+            zIndex: 2,
+          }}
+          className="radial-menu__drag-handle"
+        >
+          <Move size={mainButtonSize * DRAG_HANDLE_SIZE_FACTOR * 0.6} />
+        </div>
+      )}
+
+      {isSearchFieldShown && (
+        <MenuSearchField
+          query={searchQuery}
+          menuLabel={ariaLabel}
+          menuId={menuId}
+          resultCount={isSearching ? searchResults.length : null}
+          onQueryChange={setSearchQuery}
+          onSubmit={() => {
+            const bestMatch = searchResults.find(result => !result.item.disabled);
+            if (bestMatch) handleItemActivate(bestMatch.item, false, 'keyboard');
+          }}
+          onFocusRing={() => tabStopId && focusItem(tabStopId)}
+          style={{
+            // Wide enough to type in, narrow enough to stay clear of the ring
+            width: Math.min(SEARCH_FIELD_MAX_WIDTH, Math.max(2 * orbitRadius - itemSize, mainButtonSize)),
+            left: mainButtonSize / 2,
+            top: mainButtonSize / 2,
+            transform: 'translate(-50%, -50%)',
+            zIndex: 3,
+          }}
+        />
+      )}
+
+      {isEditingRoot && (
+        <button
+          type="button"
+          onClick={handleResetPreferences}
+          className="radial-menu__label radial-menu__reset"
+          style={{
+            bottom: mainButtonSize + 6,
+            left: mainButtonSize / 2,
+            transform: 'translateX(-50%)',
+            zIndex: 2,
+          }}
+        >
+          <RotateCcw size={12} aria-hidden="true" />
+          Reset to default
+        </button>
+      )}
+      {isEditing && <span aria-live="polite" className="radial-menu__visually-hidden">{editAnnouncement}</span>}
+
+      {isOpen && breadcrumb && !isSearching && (
+        <div
+          aria-live="polite"
+          className="radial-menu__label"
+          style={{
+            top: mainButtonSize + 6,
+            left: mainButtonSize / 2,
+            transform: 'translateX(-50%)',
+            zIndex: 2,
+          }}
+        >
+          {breadcrumb}
+        </div>
+      )}
+
+      {undoToast && (renderUndoToast ? renderUndoToast(undoToast) : (
+        <div
+          role="status"
+          className="radial-menu__label radial-menu__undo-toast"
+          style={{
+            bottom: mainButtonSize + 6,
+            left: mainButtonSize / 2,
+            transform: 'translateX(-50%)',
+            zIndex: 2,
+          }}
+        >
+          {undoToast.message}
+          <button type="button" onClick={undoToast.undo} className="radial-menu__undo">
+            <Undo2 size={12} aria-hidden="true" />
+            Undo
+          </button>
+          <button type="button" aria-label="Dismiss" onClick={undoToast.dismiss} className="radial-menu__undo-dismiss">
+            <X size={12} aria-hidden="true" />
+          </button>
+        </div>
+      ))}
+
+      {/* Drawn under the items, which carry the accessible names; this layer takes the pointer */}
+      {isWedgeShape && isRingMounted && (
+        <div aria-hidden="true" className="radial-menu__ring" style={ringContainerStyle}>
+          <svg
+            className="radial-menu__wedges"
+            width={wedgeHitRadius * 2}
+            height={wedgeHitRadius * 2}
+            viewBox={`${-wedgeHitRadius} ${-wedgeHitRadius} ${wedgeHitRadius * 2} ${wedgeHitRadius * 2}`}
+            style={{ left: mainButtonSize / 2 - wedgeHitRadius, top: mainButtonSize / 2 - wedgeHitRadius }}
+            onPointerMove={handleWedgePointerMove}
+            onPointerLeave={() => {
+              if (isOpen) setHoveredItemId(null);
+              cancelHold();
+            }}
+            onPointerDown={handleWedgePointerDown}
+            onPointerUp={cancelHold}
+            onPointerCancel={cancelHold}
+            onClick={handleWedgeClick}
+          >
+            <circle r={wedgeHitRadius} fill="transparent" />
+            {renderWedges(innerRingItems, innerWedges, false, ringPhase)}
+            {isSubmenuOpen && submenuPhase !== 'closed' && renderWedges(outerRingItems, outerWedges, true, submenuPhase)}
+          </svg>
+        </div>
+      )}
+
+      <div
+        id={menuId}
+        role="menu"
+        aria-label={isSearching ? `${ariaLabel} search results` : ariaLabel}
+        className="radial-menu__ring"
+        style={ringContainerStyle}
       >
-        {memoizedItems}
+        {memoizedInnerItems}
       </div>
+
+      {isSubmenuOpen && submenuPhase !== 'closed' && (
+        <div id={submenuId} role="menu" aria-label={activeParent?.label} className="radial-menu__ring" style={ringContainerStyle}>
+          {memoizedOuterItems}
+        </div>
+      )}
+
+      {/* Items carry their own accessible names and descriptions, so the drawn text is hidden from assistive tech */}
+      {hasOutsideLabels && activeRingPhase !== 'closed' && (
+        <div aria-hidden="true" className="radial-menu__ring" style={{ ...ringContainerStyle, pointerEvents: 'none' }}>
+          {activeRingItems.map((item, index) => {
+            const placement = ringLabelPlacements[index];
+            if (!placement) return null;
+            const isShown = isOpen && (activeRingPhase === 'entering' || activeRingPhase === 'open') && item.id !== calloutItem?.id;
+            return (
+              <span
+                key={item.id}
+                ref={element => registerRingLabel(item.id, element)}
+                className="radial-menu__ring-label"
+                style={{
+                  left: mainButtonSize / 2 + placement.x,
+                  top: mainButtonSize / 2 + placement.y,
+                  // Rotated about the end nearest the item, which sits on the item's ray
+                  transform: `rotate(${placement.rotation}rad) translate(${placement.isFlipped ? '-100%' : '0'}, -50%)`,
+                  opacity: isShown ? 1 : 0,
+                }}
+              >
+                <HighlightedLabel label={item.label} matchedIndices={searchHighlights?.get(item.id) ?? NO_MATCHED_INDICES} />
+              </span>
+            );
+          })}
+          <RingCallout
+            item={calloutItem}
+            anchor={calloutAnchor}
+            itemRadius={(isWedgeShape ? wedgeBandWidth : itemSize * hoverScale) / 2}
+            center={{ x: position.x + mainButtonSize / 2, y: position.y + mainButtonSize / 2 }}
+            mainButtonSize={mainButtonSize}
+            bounds={calloutBounds}
+            shortcut={calloutItem ? formattedShortcuts.get(calloutItem.id)?.text : undefined}
+            note={calloutNote}
+          />
+        </div>
+      )}
     </div>
   );
-};
+
+  if (portal === undefined) return menu;
+  if (!portalTarget) return null; // Nothing to portal into on the server and before mount
+  return createPortal(
+    portalTarget.needsStyles ? <><style>{radialMenuStyles}</style>{menu}</> : menu,
+    portalTarget.container,
+  );
+});
+
+RadialMenu.displayName = 'RadialMenu';
@@ -0,0 +1,50 @@
+import type { RadialMenuItem } from './RadialMenu';
+import { useMeasuredSizes } from '../hooks/useMeasuredSizes';
+import { placeCallout } from '../core/layout/labels';
+import type { LayoutBounds } from '../core/layout/safeArcs';
+import type { Point } from '../utils/pointer';
+
+const CALLOUT_GAP = 8; // Between the hovered item and its callout
+const CALLOUT_VIEWPORT_MARGIN = 8;
+
+interface RingCalloutProps {
+  item: RadialMenuItem | null; // The hovered item; nothing is shown without one
+  anchor: Point | undefined; // The item's center, relative to the main button center
+  itemRadius: number; // How far the item reaches from its center
+  center: Point; // The main button center in viewport coordinates
+  mainButtonSize: number;
+  bounds: LayoutBounds;
+  shortcut?: string;
+  note?: string; // An error, a confirmation message or why the item is disabled
+}
+
+// The box next to the hovered item with its label, shortcut and description, for labelPlacement="outside". It is
+// placed from its measured size, away from the center and inside the bounds. Stays mounted while items are hovered
+// in turn, so the last size is at hand when the next one is placed.
+export function RingCallout({ item, anchor, itemRadius, center, mainButtonSize, bounds, shortcut, note }: RingCalloutProps) {
+  const { sizes, registerElement } = useMeasuredSizes();
+  if (!item || !anchor) return null;
+
+  const position = placeCallout(
+    anchor,
+    itemRadius + CALLOUT_GAP,
+    sizes.callout ?? { width: 0, height: 0 },
+    center,
+    bounds,
+    CALLOUT_VIEWPORT_MARGIN,
+  );
+  return (
+    <div
+      ref={element => registerElement('callout', element)}
+      className="radial-menu__callout"
+      style={{ left: mainButtonSize / 2 + position.x, top: mainButtonSize / 2 + position.y }}
+    >
+      <span className="radial-menu__callout-title">
+        {item.label}
+        {shortcut && <kbd>{shortcut}</kbd>}
+      </span>
+      {item.description && <span>{item.description}</span>}
+      {note && <span className="radial-menu__callout-note">{note}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { MenuTreeNode } from './menuTree';
+
+// How an item asks before its action runs: 'hold' fills a ring around it while it is pressed, 'tap-again' turns
+// it into a warning that has to be selected a second time, and 'sub-ring' opens a yes/no ring in its place
+export type ConfirmMode = 'hold' | 'tap-again' | 'sub-ring';
+
+export interface ConfirmOptions {
+  mode: ConfirmMode;
+  message?: string; // Shown and announced while the confirmation is pending
+  holdDuration?: number; // ms, for 'hold'
+  timeout?: number; // ms a 'tap-again' item (or a 'hold' item picked without a pointer) stays armed
+  confirmLabel?: string; // The answers of a 'sub-ring'
+  cancelLabel?: string;
+}
+
+export const DEFAULT_HOLD_DURATION = 800;
+export const DEFAULT_CONFIRM_TIMEOUT = 3000;
+const DEFAULT_CONFIRM_LABEL = 'Yes';
+const DEFAULT_CANCEL_LABEL = 'No';
+const DEFAULT_MESSAGES: Record<ConfirmMode, string> = {
+  hold: 'Press and hold to confirm',
+  'tap-again': 'Select again to confirm',
+  'sub-ring': 'Are you sure?',
+};
+
+export function resolveConfirmOptions(confirm: ConfirmMode | ConfirmOptions | undefined): Required<ConfirmOptions> | null {
+  if (!confirm) return null;
+  const options = typeof confirm === 'string' ? { mode: confirm } : confirm;
+  return {
+    message: DEFAULT_MESSAGES[options.mode],
+    holdDuration: DEFAULT_HOLD_DURATION,
+    timeout: DEFAULT_CONFIRM_TIMEOUT,
+    confirmLabel: DEFAULT_CONFIRM_LABEL,
+    cancelLabel: DEFAULT_CANCEL_LABEL,
+    ...options,
+  };
+}
+
+export type ConfirmStep =
+  | 'run' // Confirmed, or nothing to confirm
+  | 'arm' // Wait for a second selection
+  | 'hint' // A click on a 'hold' item: tell the user to hold instead
+  | 'open'; // Show the yes/no ring
+
+// Decides what selecting an item that may need confirming does, without performing it. Only a pointer can hold an
+// item, so a 'hold' item picked with the keyboard, a marking gesture or a shortcut asks to be picked again instead.
+export function getConfirmStep(
+  options: Required<ConfirmOptions> | null,
+  { isArmed, isPointer }: { isArmed: boolean; isPointer: boolean },
+): ConfirmStep {
+  if (!options) return 'run';
+  if (options.mode === 'sub-ring') return 'open';
+  if (isArmed) return 'run';
+  return options.mode === 'hold' && isPointer ? 'hint' : 'arm';
+}
+
+// What to tell the user after `step`. The message of a 'hold' item is about holding, so one armed without a
+// pointer says to select it again instead.
+export function getConfirmMessage(options: Required<ConfirmOptions>, step: ConfirmStep): string {
+  return options.mode === 'hold' && step === 'arm' ? DEFAULT_MESSAGES['tap-again'] : options.message;
+}
+
+// The tree with `getAnswers(item)` as the children of every item that returns some, e.g. the yes/no ring of a
+// 'sub-ring' confirmation. Items with children of their own are left alone.
+export function addConfirmRings<T extends MenuTreeNode<T>>(items: T[], getAnswers: (item: T) => T[] | null): T[] {
+  return items.map(item => {
+    if (item.children && item.children.length > 0) return { ...item, children: addConfirmRings(item.children, getAnswers) };
+    const answers = getAnswers(item);
+    return answers ? { ...item, children: answers } : item;
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createDragController, resolveRestingPosition } from './dragController';
+
+const BOUNDS = { left: 0, top: 0, width: 800, height: 600 };
+const SIZE = 50;
+
+const createController = () => createDragController({
+  getThreshold: () => 5,
+  getElementSize: () => SIZE,
+  getBounds: () => BOUNDS,
+});
+
+describe('createDragController', () => {
+  it('moves the element with the pointer, keeping where it was grabbed', () => {
+    const controller = createController();
+    controller.start(1, { x: 110, y: 120 }, { x: 100, y: 100 }, 0);
+    expect(controller.move(1, { x: 210, y: 170 }, 16)).toEqual({ position: { x: 200, y: 150 }, hasMovedBeyondThreshold: true });
+  });
+
+  it('clamps the element inside the bounds', () => {
+    const controller = createController();
+    controller.start(1, { x: 110, y: 110 }, { x: 100, y: 100 }, 0);
+    expect(controller.move(1, { x: -200, y: 2000 }, 16)?.position).toEqual({ x: 0, y: 550 });
+    expect(controller.move(1, { x: 2000, y: -200 }, 32)?.position).toEqual({ x: 750, y: 0 });
+  });
+
+  it('treats a press that stays within the threshold as a click', () => {
+    const controller = createController();
+    controller.start(1, { x: 110, y: 110 }, { x: 100, y: 100 }, 0);
+    controller.move(1, { x: 113, y: 112 }, 16);
+    expect(controller.end(1, 32)?.hasMovedBeyondThreshold).toBe(false);
+  });
+
+  it('ignores other pointers while one is dragging', () => {
+    const controller = createController();
+    expect(controller.start(1, { x: 110, y: 110 }, { x: 100, y: 100 }, 0)).toBe(true);
+    expect(controller.start(2, { x: 300, y: 300 }, { x: 100, y: 100 }, 0)).toBe(false);
+    expect(controller.move(2, { x: 400, y: 400 }, 16)).toBeNull();
+    expect(controller.end(2, 32)).toBeNull();
+  });
+
+  it('reports the release velocity, or none after holding still', () => {
+    const controller = createController();
+    controller.start(1, { x: 110, y: 110 }, { x: 100, y: 100 }, 0);
+    controller.move(1, { x: 160, y: 110 }, 50);
+    expect(controller.end(1, 60)?.velocity).toEqual({ x: 1000, y: 0 });
+
+    controller.start(1, { x: 110, y: 110 }, { x: 100, y: 100 }, 0);
+    controller.move(1, { x: 160, y: 110 }, 50);
+    expect(controller.end(1, 500)?.velocity).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('resolveRestingPosition', () => {
+  it('stays where it was released without inertia or snapping', () => {
+    expect(resolveRestingPosition({ x: 300, y: 200 }, { x: 600, y: 0 }, SIZE, BOUNDS, {}).position).toEqual({ x: 300, y: 200 });
+  });
+
+  it('glides along the release velocity and stops at the bounds', () => {
+    const { position } = resolveRestingPosition({ x: 300, y: 200 }, { x: 600, y: 6000 }, SIZE, BOUNDS, { inertia: true });
+    expect(position).toEqual({ x: 400, y: 550 });
+  });
+
+  it('docks to the edge it lands near', () => {
+    const result = resolveRestingPosition({ x: 730, y: 200 }, { x: 0, y: 0 }, SIZE, BOUNDS, { snapping: { edges: true } });
+    expect(result).toEqual({ position: { x: 734, y: 200 }, docked: { x: 'end', y: null } });
+  });
+});
@@ -0,0 +1,131 @@
+import type { Point } from '../utils/pointer';
+import type { LayoutBounds } from './layout/safeArcs';
+import {
+  applyMagnet, clampToBounds, projectInertia, resolveSnapTarget, DockedEdges, InertiaOptions, SnapOptions,
+  DEFAULT_INERTIA_FRICTION, DEFAULT_SNAP_THRESHOLD, NOT_DOCKED,
+} from './snapping';
+
+export interface DragControllerOptions {
+  getThreshold: () => number; // Distance below which a press is a click rather than a drag
+  getElementSize: () => number;
+  getBounds: () => LayoutBounds;
+  getSnapping?: () => SnapOptions | undefined; // Snap points are top-left corners, like all positions here
+}
+
+export interface DragMove {
+  position: Point; // New top-left corner, clamped and pulled toward nearby snap points
+  hasMovedBeyondThreshold: boolean;
+}
+
+export interface DragRelease {
+  hasMovedBeyondThreshold: boolean;
+  position: Point;
+  velocity: Point; // px/s over the last moments of the drag; zero if the pointer was held still before release
+}
+
+export interface DragController {
+  start: (pointerId: number, point: Point, elementTopLeft: Point, time: number) => boolean;
+  move: (pointerId: number, point: Point, time: number) => DragMove | null;
+  end: (pointerId: number, time: number) => DragRelease | null;
+  cancel: () => void;
+  isDragging: () => boolean;
+}
+
+interface MoveSample extends Point {
+  time: number;
+}
+
+const VELOCITY_SAMPLE_WINDOW = 100; // ms of movement the release velocity is averaged over
+export const SETTLE_DURATION = 300; // ms to glide to the resting position after release
+export const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// The drag state machine behind useDraggable and the <radial-menu> element: one pointer at a time, a click-vs-drag
+// threshold, clamping to the bounds and release velocity. It only does arithmetic; callers feed it pointer
+// coordinates and apply the positions it returns.
+export function createDragController(options: DragControllerOptions): DragController {
+  let drag: {
+    pointerId: number;
+    offset: Point; // Pointer position within the element
+    startPoint: Point;
+    hasMovedBeyondThreshold: boolean;
+    samples: MoveSample[];
+    position: Point;
+  } | null = null;
+
+  const getMagnetized = (position: Point) => {
+    const snapping = options.getSnapping?.();
+    return snapping?.points?.length
+      ? applyMagnet(position, snapping.points, snapping.threshold ?? DEFAULT_SNAP_THRESHOLD)
+      : position;
+  };
+
+  return {
+    start: (pointerId, point, elementTopLeft, time) => {
+      if (drag) return false; // Other pointers are ignored until the one dragging is released
+      drag = {
+        pointerId,
+        offset: { x: point.x - elementTopLeft.x, y: point.y - elementTopLeft.y },
+        startPoint: point,
+        hasMovedBeyondThreshold: false,
+        samples: [{ ...elementTopLeft, time }],
+        position: elementTopLeft,
+      };
+      return true;
+    },
+
+    move: (pointerId, point, time) => {
+      if (!drag || drag.pointerId !== pointerId) return null;
+      if (!drag.hasMovedBeyondThreshold) {
+        drag.hasMovedBeyondThreshold = Math.hypot(point.x - drag.startPoint.x, point.y - drag.startPoint.y) > options.getThreshold();
+      }
+      const position = clampToBounds(
+        { x: point.x - drag.offset.x, y: point.y - drag.offset.y },
+        options.getElementSize(),
+        options.getBounds(),
+      );
+      // Samples are the unattracted positions, so the magnet doesn't skew the release velocity
+      drag.samples = [...drag.samples.filter(sample => time - sample.time <= VELOCITY_SAMPLE_WINDOW), { ...position, time }];
+      drag.position = position;
+      return { position: getMagnetized(position), hasMovedBeyondThreshold: drag.hasMovedBeyondThreshold };
+    },
+
+    end: (pointerId, time) => {
+      if (!drag || drag.pointerId !== pointerId) return null;
+      const { samples, position, hasMovedBeyondThreshold } = drag;
+      drag = null;
+
+      const first = samples[0];
+      const last = samples[samples.length - 1];
+      const elapsed = (last.time - first.time) / 1000;
+      const isStale = time - last.time > VELOCITY_SAMPLE_WINDOW; // Held still before letting go
+      const velocity = elapsed > 0 && !isStale
+        ? { x: (last.x - first.x) / elapsed, y: (last.y - first.y) / elapsed }
+        : { x: 0, y: 0 };
+      return { hasMovedBeyondThreshold, position: getMagnetized(position), velocity };
+    },
+
+    cancel: () => {
+      drag = null;
+    },
+
+    isDragging: () => drag !== null,
+  };
+}
+
+// Where a released widget comes to rest: it glides along the release velocity when inertia is on, then lands on
+// a snap target if one is close enough
+export function resolveRestingPosition(
+  from: Point,
+  velocity: Point,
+  elementSize: number,
+  bounds: LayoutBounds,
+  { snapping, inertia }: { snapping?: SnapOptions; inertia?: boolean | InertiaOptions },
+): { position: Point; docked: DockedEdges } {
+  const friction = inertia ? (inertia === true ? DEFAULT_INERTIA_FRICTION : inertia.friction ?? DEFAULT_INERTIA_FRICTION) : null;
+  const projected = clampToBounds(friction ? projectInertia(from, velocity, friction) : from, elementSize, bounds);
+  const snapTarget = snapping ? resolveSnapTarget(projected, elementSize, bounds, snapping) : null;
+  return {
+    position: clampToBounds(snapTarget?.position ?? projected, elementSize, bounds),
+    docked: snapTarget?.docked ?? NOT_DOCKED,
+  };
+}
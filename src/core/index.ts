@@ -0,0 +1,47 @@
+// The framework-agnostic core of the radial menu: plain TypeScript with no React and no DOM access, shared by the
+// React component and the <radial-menu> element
+export {
+  menuNavigationReducer, getMenuRings, resolveActivation, INITIAL_NAVIGATION_STATE, DEFAULT_MAX_SEARCH_RESULTS,
+} from './menuState';
+export type { MenuNavigationState, MenuNavigationAction, MenuRings, ActivationOutcome } from './menuState';
+export { hasChildren, resolveMenuPath, findItemPath, getItemsAtPath, flattenMenuTree } from './menuTree';
+export type { MenuTreeNode } from './menuTree';
+export { fuzzyMatch, searchMenuItems } from './menuSearch';
+export type { FuzzyMatch, MenuSearchResult } from './menuSearch';
+export {
+  computeRingLayout, computeRingCapacity, computeSubmenuRadius, DEFAULT_LAYOUT, SUBMENU_RING_SPACING_FACTOR,
+} from './layoutEngine';
+export type { RingLayoutInput } from './layoutEngine';
+export { circleLayout, arcLayout, multiRingLayout, autoRadiusLayout } from './layout/strategies';
+export type { LayoutStrategy, LayoutContext } from './layout/strategies';
+export { computeSafeArcs, distributeOnRing } from './layout/safeArcs';
+export { getRingWindow, revealRingIndex } from './ringOverflow';
+export type { RingOverflow, RingWindow } from './ringOverflow';
+export type { ItemPosition, LayoutBounds } from './layout/safeArcs';
+export type { ObstacleRect } from './layout/obstacles';
+export { createDragController, resolveRestingPosition } from './dragController';
+export type { DragController, DragControllerOptions, DragMove, DragRelease } from './dragController';
+export {
+  clampToBounds, projectInertia, applyMagnet, resolveSnapTarget,
+  DEFAULT_SNAP_THRESHOLD, DEFAULT_EDGE_MARGIN, DEFAULT_INERTIA_FRICTION,
+} from './snapping';
+export type { SnapOptions, InertiaOptions, DockedEdges } from './snapping';
+export { placeRadialLabels, placeCallout } from './layout/labels';
+export { computeWedges, getWedgeCenter, describeWedgePath, findWedgeAt } from './layout/wedges';
+export type { Wedge } from './layout/wedges';
+export type { LabelPlacement, LabelSize } from './layout/labels';
+export { parseShortcut, normalizeShortcut, matchesShortcut, formatShortcut, formatAriaShortcut, assignMnemonics } from './shortcuts';
+export type { Shortcut, KeyStroke } from './shortcuts';
+export { createShortcutRegistry, defaultShortcutRegistry } from './shortcutRegistry';
+export type { ShortcutRegistry, ShortcutBinding, ShortcutConflict } from './shortcutRegistry';
+export {
+  applyMenuPreferences, arrangeByUsage, moveMenuItem, setMenuItemFlag, recordMenuItemUse, DEFAULT_MENU_PREFERENCES,
+  ROOT_RING_KEY,
+} from './menuPreferences';
+export type { MenuPreferences } from './menuPreferences';
+export { createMenuManager, getOpenMenuIds, getMenuObstacles } from './menuManager';
+export type { MenuManager, MenuManagerOptions, MenuManagerSnapshot, ManagedMenu, MenuFootprint } from './menuManager';
+export {
+  resolveConfirmOptions, getConfirmStep, getConfirmMessage, addConfirmRings, DEFAULT_HOLD_DURATION, DEFAULT_CONFIRM_TIMEOUT,
+} from './confirmation';
+export type { ConfirmMode, ConfirmOptions, ConfirmStep } from './confirmation';
@@ -0,0 +1,117 @@
+import type { Point } from '../../utils/pointer';
+import type { ItemPosition, LayoutBounds } from './safeArcs';
+
+export interface LabelSize {
+  width: number;
+  height: number;
+}
+
+// A label running outward along its item's ray. (x, y) is its inner end, relative to the main button center.
+export interface LabelPlacement {
+  x: number;
+  y: number;
+  rotation: number; // Radians; labels on the left half are turned half a turn so they read left to right
+  isFlipped: boolean; // The anchor is the label's right end instead of its left end
+}
+
+interface LabelLayoutOptions {
+  itemSize: number;
+  gap: number; // Between an item's edge and its label
+  spacing: number; // Between two labels sharing a ray region
+}
+
+// Rays closer than this never overlap, however long the labels are
+const MAX_CONFLICT_ANGLE = Math.PI / 2;
+
+// Whether two radial labels overlap: where both exist, the rays must be at least a label height apart
+function labelsCollide(
+  start: number, length: number, other: { start: number; length: number },
+  angleBetween: number, height: number, spacing: number,
+): boolean {
+  const overlapStart = Math.max(start, other.start);
+  const overlapEnd = Math.min(start + length, other.start + other.length);
+  if (overlapEnd + spacing <= overlapStart) return false;
+  return overlapStart * Math.sin(angleBetween) < height + spacing;
+}
+
+// Places each item's label on the item's ray, just outside the item. When neighbouring rays are too close for
+// their labels, later labels (in angular order) start further out, where the rays have spread apart, or beyond
+// the end of the label they would hit.
+export function placeRadialLabels(
+  positions: ItemPosition[],
+  sizes: LabelSize[],
+  { itemSize, gap, spacing }: LabelLayoutOptions,
+): LabelPlacement[] {
+  const rays = positions.map(({ x, y }) => ({ angle: Math.atan2(y, x), radius: Math.hypot(x, y) }));
+  const order = rays.map((_, index) => index).sort((a, b) => rays[a].angle - rays[b].angle);
+  const starts: number[] = new Array(positions.length);
+  const placed: number[] = [];
+
+  order.forEach(index => {
+    const { angle, radius } = rays[index];
+    const { width, height } = sizes[index] ?? { width: 0, height: 0 };
+    const base = radius + itemSize / 2 + gap;
+    const neighbours = placed
+      .map(other => {
+        const diff = Math.abs(angle - rays[other].angle) % (2 * Math.PI);
+        return { other, angleBetween: diff > Math.PI ? 2 * Math.PI - diff : diff };
+      })
+      .filter(({ angleBetween }) => angleBetween < MAX_CONFLICT_ANGLE);
+
+    // The earliest start that clears every label already placed
+    const candidates = [base, ...neighbours.flatMap(({ other, angleBetween }) => [
+      (height + spacing) / Math.max(Math.sin(angleBetween), Number.EPSILON),
+      starts[other] + (sizes[other]?.width ?? 0) + spacing,
+    ])].filter(candidate => candidate >= base).sort((a, b) => a - b);
+    const start = candidates.find(candidate => neighbours.every(({ other, angleBetween }) => !labelsCollide(
+      candidate, width, { start: starts[other], length: sizes[other]?.width ?? 0 }, angleBetween, height, spacing,
+    ))) ?? candidates[candidates.length - 1];
+
+    starts[index] = start;
+    placed.push(index);
+  });
+
+  return rays.map(({ angle }, index) => {
+    const isFlipped = Math.cos(angle) < 0;
+    return {
+      x: Math.cos(angle) * starts[index],
+      y: Math.sin(angle) * starts[index],
+      rotation: isFlipped ? angle - Math.PI : angle,
+      isFlipped,
+    };
+  });
+}
+
+// Directions tried for a callout, relative to the item's ray: straight out, then sideways, then back inward
+const CALLOUT_DIRECTIONS = [0, Math.PI / 2, -Math.PI / 2, Math.PI];
+
+// Top-left corner of a callout for the item at `anchor` (relative to the main button at `center`), on the side of
+// the item facing away from the center and kept inside `bounds`. Where the bounds would push it back over the
+// item, it goes to the side of the item instead. The result is relative to the main button center.
+export function placeCallout(
+  anchor: Point,
+  clearance: number, // From the item's center to where the callout may start
+  size: LabelSize,
+  center: Point,
+  bounds: LayoutBounds,
+  margin: number,
+): Point {
+  const left = (bounds.left ?? 0) + margin - center.x;
+  const top = (bounds.top ?? 0) + margin - center.y;
+  const right = Math.max(left, (bounds.left ?? 0) + bounds.width - margin - center.x - size.width);
+  const bottom = Math.max(top, (bounds.top ?? 0) + bounds.height - margin - center.y - size.height);
+  const rayAngle = Math.atan2(anchor.y, anchor.x);
+
+  const candidates = CALLOUT_DIRECTIONS.map(offset => {
+    const dx = Math.cos(rayAngle + offset);
+    const dy = Math.sin(rayAngle + offset);
+    const attach = { x: anchor.x + dx * clearance, y: anchor.y + dy * clearance };
+    // Slide the box so the side (or corner) facing the item touches the attachment point
+    const x = attach.x - size.width * (1 - dx) / 2;
+    const y = attach.y - size.height * (1 - dy) / 2;
+    return { x: Math.min(Math.max(x, left), right), y: Math.min(Math.max(y, top), bottom) };
+  });
+  const coversItem = ({ x, y }: Point) => x < anchor.x + clearance && x + size.width > anchor.x - clearance
+    && y < anchor.y + clearance && y + size.height > anchor.y - clearance;
+  return candidates.find(candidate => !coversItem(candidate)) ?? candidates[0];
+}
@@ -0,0 +1,34 @@
+import type { Point } from '../../utils/pointer';
+
+// Viewport-space rectangle the ring must keep clear of. A DOMRect satisfies it.
+export interface ObstacleRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export function getItemRect(center: Point, radius: number, angle: number, itemSize: number): ObstacleRect {
+  const x = center.x + radius * Math.cos(angle);
+  const y = center.y + radius * Math.sin(angle);
+  const halfItem = itemSize / 2;
+  return { left: x - halfItem, top: y - halfItem, right: x + halfItem, bottom: y + halfItem };
+}
+
+// Gap between two rectangles; 0 when they touch or overlap
+export function getRectDistance(a: ObstacleRect, b: ObstacleRect): number {
+  const dx = Math.max(0, b.left - a.right, a.left - b.right);
+  const dy = Math.max(0, b.top - a.bottom, a.top - b.bottom);
+  return Math.hypot(dx, dy);
+}
+
+export function getClearance(rect: ObstacleRect, obstacles: ObstacleRect[]): number {
+  return obstacles.reduce((min, obstacle) => Math.min(min, getRectDistance(rect, obstacle)), Infinity);
+}
+
+export function areRectListsEqual(a: ObstacleRect[], b: ObstacleRect[]): boolean {
+  return a.length === b.length && a.every((rect, index) => (
+    rect.left === b[index].left && rect.top === b[index].top &&
+    rect.right === b[index].right && rect.bottom === b[index].bottom
+  ));
+}
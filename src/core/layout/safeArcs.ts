@@ -0,0 +1,258 @@
+import type { Point } from '../../utils/pointer';
+import { getClearance, getItemRect, ObstacleRect } from './obstacles';
+
+export interface ItemPosition {
+  x: number; // Relative to main button center
+  y: number; // Relative to main button center
+  angle: number; // In radians
+  // The item's share of the safe arcs, clockwise from startAngle (radians). Never reaches into an unsafe stretch,
+  // so a clipped ring leaves a gap there. Set by layouts that spread items with distributeOnRing.
+  wedge?: { startAngle: number; sweep: number };
+}
+
+// The area items must stay inside, in viewport coordinates; the origin defaults to the window's top-left
+export interface LayoutBounds {
+  left?: number;
+  top?: number;
+  width: number;
+  height: number;
+}
+
+// A stretch of the sampled range where an item fits. `start`/`end` are offsets into the range, not angles.
+export interface SafeArc {
+  start: number;
+  end: number;
+  length: number;
+}
+
+// The part of the circle a ring may use: `sweep` radians from `startAngle`, walked in `direction`
+export interface AngleRange {
+  startAngle: number;
+  sweep: number;
+  direction: 1 | -1; // 1 is clockwise on screen (y grows downward)
+}
+
+export interface RingPlacement {
+  center: Point; // Absolute center of the main button
+  bounds: LayoutBounds;
+  radius: number;
+  itemSize: number;
+  range?: AngleRange; // Whole circle when omitted
+  obstacles?: ObstacleRect[]; // Areas items must not overlap, in viewport coordinates
+  obstaclePadding?: number; // Extra clearance required around obstacles
+  comfortDistance?: number; // Clearance beyond which an obstacle no longer pushes items away; defaults to itemSize
+}
+
+const VERY_SMALL_NUMBER = 0.00001; // Used for float comparisons
+const NUM_ANGLE_SAMPLES = 180; // Samples per full turn
+const MIN_CLEARANCE_WEIGHT = 0.2; // Space right next to an obstacle still counts this much when spreading items
+const FULL_TURN = 2 * Math.PI;
+export const FULL_CIRCLE: AngleRange = { startAngle: 0, sweep: FULL_TURN, direction: 1 };
+
+export function normalizeAngle(angle: number): number {
+  const normalized = angle % FULL_TURN;
+  return normalized < 0 ? normalized + FULL_TURN : normalized;
+}
+
+function rangeOffsetToAngle(range: AngleRange, offset: number): number {
+  return normalizeAngle(range.startAngle + range.direction * offset);
+}
+
+// The shared edge-avoidance pass: samples the range and returns the stretches where an item of `itemSize`
+// on the ring stays inside `bounds`.
+export function computeSafeArcs({
+  center,
+  bounds,
+  radius,
+  itemSize,
+  range = FULL_CIRCLE,
+  obstacles = [],
+  obstaclePadding = 0,
+}: RingPlacement): SafeArc[] {
+  const isFullCircle = range.sweep >= FULL_TURN - VERY_SMALL_NUMBER;
+  const boundsLeft = bounds.left ?? 0;
+  const boundsTop = bounds.top ?? 0;
+
+  const isAngleSafe = (angle: number): boolean => {
+    const itemRect = getItemRect(center, radius, angle, itemSize);
+
+    return (
+      itemRect.left >= boundsLeft &&
+      itemRect.right <= boundsLeft + bounds.width &&
+      itemRect.top >= boundsTop &&
+      itemRect.bottom <= boundsTop + bounds.height &&
+      getClearance(itemRect, obstacles) > obstaclePadding
+    );
+  };
+
+  const numAngleSamples = Math.max(2, Math.round(NUM_ANGLE_SAMPLES * range.sweep / FULL_TURN));
+  // A full circle wraps, so its last sample must not repeat the first; an open range includes both ends
+  const angleSampleStep = range.sweep / (isFullCircle ? numAngleSamples : numAngleSamples - 1);
+  const safeAnglesInfo: { offset: number; safe: boolean }[] = [];
+  for (let i = 0; i < numAngleSamples; i++) {
+    const offset = i * angleSampleStep;
+    safeAnglesInfo.push({ offset, safe: isAngleSafe(rangeOffsetToAngle(range, offset)) });
+  }
+
+  const safeArcs: SafeArc[] = [];
+  let currentArcStart: number | null = null;
+
+  for (let i = 0; i <= numAngleSamples; i++) { 
+    const isCurrentSampleSafe = i < numAngleSamples ? safeAnglesInfo[i].safe : false; 
+    const currentSampleOffset = i < numAngleSamples ? safeAnglesInfo[i].offset : range.sweep; 
+
+    if (isCurrentSampleSafe && currentArcStart === null) {
+      currentArcStart = currentSampleOffset;
+    } else if (!isCurrentSampleSafe && currentArcStart !== null) {
+      if (currentSampleOffset > currentArcStart) { // Ensure arc has positive length
+        safeArcs.push({ start: currentArcStart, end: currentSampleOffset, length: currentSampleOffset - currentArcStart });
+      }
+      currentArcStart = null;
+    }
+  }
+
+  // On a full circle the arc touching the end of the range continues into the one starting at 0
+  if (isFullCircle && safeAnglesInfo[0].safe && safeAnglesInfo[numAngleSamples - 1].safe && safeArcs.length > 1) {
+    const firstArcIndex = safeArcs.findIndex(arc => Math.abs(arc.start) < VERY_SMALL_NUMBER);
+    const lastArcIndex = safeArcs.findIndex(arc => Math.abs(arc.end - range.sweep) < VERY_SMALL_NUMBER);
+
+    if (firstArcIndex !== -1 && lastArcIndex !== -1 && firstArcIndex !== lastArcIndex) {
+      const firstArc = safeArcs[firstArcIndex];
+      const lastArc = safeArcs[lastArcIndex];
+
+      const mergedArcs = safeArcs.filter((_, index) => index !== firstArcIndex && index !== lastArcIndex);
+      mergedArcs.push({
+        start: lastArc.start, 
+        end: firstArc.end + range.sweep, 
+        length: lastArc.length + firstArc.length,
+      });
+      safeArcs.splice(0, safeArcs.length, ...mergedArcs);
+    }
+  }
+
+  return safeArcs.sort((a, b) => a.start - b.start);
+}
+
+export function getTotalArcLength(safeArcs: SafeArc[]): number {
+  return safeArcs.reduce((sum, arc) => sum + arc.length, 0);
+}
+
+// Space next to an obstacle is worth less than open space, so items spread toward roomier parts of the arcs
+function weightArcs(placement: RingPlacement, safeArcs: SafeArc[]): SafeArc[] {
+  const { center, radius, itemSize, range = FULL_CIRCLE, obstacles = [], obstaclePadding = 0 } = placement;
+  const comfortDistance = placement.comfortDistance ?? itemSize;
+  const sampleStep = FULL_TURN / NUM_ANGLE_SAMPLES;
+
+  const getWeight = (offset: number) => {
+    const clearance = getClearance(getItemRect(center, radius, rangeOffsetToAngle(range, offset), itemSize), obstacles);
+    const comfort = Math.min(1, Math.max(0, clearance - obstaclePadding) / comfortDistance);
+    return MIN_CLEARANCE_WEIGHT + (1 - MIN_CLEARANCE_WEIGHT) * comfort;
+  };
+
+  // Each arc is cut into sample-sized pieces whose length is scaled by their weight
+  return safeArcs.flatMap(arc => {
+    const pieces: SafeArc[] = [];
+    for (let pieceStart = arc.start; pieceStart < arc.end - VERY_SMALL_NUMBER; pieceStart += sampleStep) {
+      const pieceEnd = Math.min(pieceStart + sampleStep, arc.end);
+      pieces.push({ start: pieceStart, end: pieceEnd, length: (pieceEnd - pieceStart) * getWeight((pieceStart + pieceEnd) / 2) });
+    }
+    return pieces;
+  });
+}
+
+// Spreads `numItems` evenly over the safe arcs, treated as one concatenated stretch. Positions come back in the
+// walking order of the range.
+export function distributeOnRing(placement: RingPlacement, numItems: number, safeArcs = computeSafeArcs(placement)): ItemPosition[] {
+  const { radius, range = FULL_CIRCLE } = placement;
+  if (numItems === 0 || safeArcs.length === 0) return [];
+
+  if (placement.obstacles && placement.obstacles.length > 0) {
+    safeArcs = weightArcs(placement, safeArcs);
+  }
+
+  const toPosition = (offset: number): ItemPosition => {
+    const angle = rangeOffsetToAngle(range, offset);
+    return { x: radius * Math.cos(angle), y: radius * Math.sin(angle), angle };
+  };
+
+  const totalSafeLength = getTotalArcLength(safeArcs);
+
+  if (totalSafeLength < VERY_SMALL_NUMBER) { // If total safe length is negligible, effectively no space
+    // Stack everything in the middle of the first (tiny) arc rather than hiding the items
+    const fallbackOffset = safeArcs[0].start + safeArcs[0].length / 2;
+    return Array.from({ length: numItems }, () => toPosition(fallbackOffset));
+  }
+
+  const lengthPerSlot = totalSafeLength / numItems; 
+  const newPositions: ItemPosition[] = [];
+
+  // Contiguous stretches of the (possibly weighted) arcs, so an item's slot can be clipped to the one it sits in
+  const runs: { arcs: SafeArc[]; startLength: number; length: number }[] = [];
+  let runEnd = -Infinity;
+  let accumulatedLength = 0;
+  safeArcs.forEach(arc => {
+    if (arc.start > runEnd + VERY_SMALL_NUMBER || runs.length === 0) {
+      runs.push({ arcs: [], startLength: accumulatedLength, length: 0 });
+    }
+    const run = runs[runs.length - 1];
+    run.arcs.push(arc);
+    run.length += arc.length;
+    runEnd = arc.end;
+    accumulatedLength += arc.length;
+  });
+
+  // Distance along a run back to an offset into the range
+  const toRunOffset = (run: typeof runs[number], length: number) => {
+    let remaining = Math.max(0, Math.min(length, run.length));
+    for (const arc of run.arcs) {
+      if (remaining <= arc.length + VERY_SMALL_NUMBER) {
+        return arc.start + (arc.length > 0 ? Math.min(remaining, arc.length) * (arc.end - arc.start) / arc.length : 0);
+      }
+      remaining -= arc.length;
+    }
+    return run.arcs[run.arcs.length - 1].end;
+  };
+
+  const getWedge = (itemIndex: number): ItemPosition['wedge'] => {
+    const itemCenter = (itemIndex + 0.5) * lengthPerSlot;
+    const run = runs.find(candidate => itemCenter < candidate.startLength + candidate.length + VERY_SMALL_NUMBER) ?? runs[runs.length - 1];
+    const startOffset = toRunOffset(run, itemIndex * lengthPerSlot - run.startLength);
+    const endOffset = toRunOffset(run, (itemIndex + 1) * lengthPerSlot - run.startLength);
+    return {
+      startAngle: rangeOffsetToAngle(range, range.direction === 1 ? startOffset : endOffset),
+      sweep: endOffset - startOffset,
+    };
+  };
+
+  for (let itemIndex = 0; itemIndex < numItems; itemIndex++) {
+    const itemCenterInConcatenatedSpace = (itemIndex + 0.5) * lengthPerSlot;
+    let foundPositionForItem = false;
+    
+    let currentArcAccumulatedLength = 0;
+    for (const arc of safeArcs) {
+      // Check if the item's center falls within the current arc segment in the concatenated space
+      // Add tolerance for floating point comparisons
+      if (itemCenterInConcatenatedSpace >= currentArcAccumulatedLength - VERY_SMALL_NUMBER &&
+          itemCenterInConcatenatedSpace < currentArcAccumulatedLength + arc.length + VERY_SMALL_NUMBER) { 
+        // Clamp the offset within the arc to avoid overshooting due to tolerance. Weighted arcs are shorter than
+        // the angle they span, so the offset is scaled back to it.
+        const lengthWithinArc = Math.max(0, Math.min(itemCenterInConcatenatedSpace - currentArcAccumulatedLength, arc.length));
+        const offsetWithinArc = arc.length > 0 ? lengthWithinArc * (arc.end - arc.start) / arc.length : 0;
+        newPositions.push({ ...toPosition(arc.start + offsetWithinArc), wedge: getWedge(itemIndex) });
+        foundPositionForItem = true;
+        break; 
+      }
+      currentArcAccumulatedLength += arc.length;
+    }
+    
+    if (!foundPositionForItem) {
+      // This fallback should ideally not be reached if totalSafeLength > 0 and logic is perfect.
+      // It indicates an issue mapping itemCenterInConcatenatedSpace to an arc, likely due to float precision.
+      console.warn("RadialMenu: Item could not be placed in any safe arc. Defaulting placement to start of first safe arc.", 
+        { itemIndex, itemCenterInConcatenatedSpace, totalSafeLength, safeArcs });
+      newPositions.push(toPosition(safeArcs[0].start));
+    }
+  }
+
+  return newPositions;
+}
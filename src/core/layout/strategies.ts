@@ -0,0 +1,141 @@
+import type { Point } from '../../utils/pointer';
+import {
+  AngleRange, computeSafeArcs, distributeOnRing, getTotalArcLength, ItemPosition, LayoutBounds, RingPlacement,
+} from './safeArcs';
+import type { ObstacleRect } from './obstacles';
+
+export interface LayoutContext {
+  numItems: number;
+  orbitRadius: number;
+  itemSize: number;
+  center: Point; // Absolute center of the main button
+  bounds: LayoutBounds;
+  obstacles?: ObstacleRect[];
+  obstaclePadding?: number;
+}
+
+// Turns a ring of items into positions relative to the main button center. Strategies decide radii and the
+// angular range; the edge avoidance in safeArcs.ts is shared by all of them.
+export interface LayoutStrategy {
+  layout: (context: LayoutContext) => ItemPosition[];
+  // How many items fit without overlapping; omitted by strategies that make room for any number
+  capacity?: (context: Omit<LayoutContext, 'numItems'>) => number;
+}
+
+const DEFAULT_ITEM_GAP_FACTOR = 1.2; // Center-to-center spacing along the ring, as a multiple of itemSize
+const AUTO_RADIUS_STEP = 4;
+const DEFAULT_MAX_RADIUS_FACTOR = 4; // Auto-growing radii stop at this multiple of orbitRadius
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const byAngle = (a: ItemPosition, b: ItemPosition) => a.angle - b.angle;
+
+function getPlacement(context: Omit<LayoutContext, 'numItems'>, radius: number, range?: AngleRange): RingPlacement {
+  const { center, bounds, itemSize, obstacles, obstaclePadding } = context;
+  return { center, bounds, radius, itemSize, range, obstacles, obstaclePadding };
+}
+
+// How many items fit on the safe part of a ring without overlapping
+function getRingCapacity(placement: RingPlacement, itemGapFactor: number): number {
+  const safeLength = getTotalArcLength(computeSafeArcs(placement)) * placement.radius;
+  return Math.floor(safeLength / (placement.itemSize * itemGapFactor));
+}
+
+// The original layout: items spread evenly over the viewport-safe parts of the whole circle
+export function circleLayout(): LayoutStrategy {
+  return {
+    layout: context => {
+      const { numItems, orbitRadius } = context;
+      if (numItems === 0 || orbitRadius <= 0) return [];
+      return distributeOnRing(getPlacement(context, orbitRadius), numItems).sort(byAngle);
+    },
+    capacity: context => getRingCapacity(getPlacement(context, context.orbitRadius), DEFAULT_ITEM_GAP_FACTOR),
+  };
+}
+
+interface ArcLayoutOptions {
+  startAngle?: number; // Degrees, 0 pointing right and 90 pointing down
+  sweep?: number; // Degrees
+  direction?: 'clockwise' | 'counterclockwise';
+}
+
+// A fixed fan: items follow `direction` from `startAngle`, keeping array order along the arc
+export function arcLayout({ startAngle = -90, sweep = 180, direction = 'clockwise' }: ArcLayoutOptions = {}): LayoutStrategy {
+  const range: AngleRange = {
+    startAngle: toRadians(startAngle),
+    sweep: toRadians(Math.min(Math.max(sweep, 0), 360)),
+    direction: direction === 'clockwise' ? 1 : -1,
+  };
+
+  return {
+    layout: context => {
+      const { numItems, orbitRadius } = context;
+      if (numItems === 0 || orbitRadius <= 0 || range.sweep <= 0) return [];
+      return distributeOnRing(getPlacement(context, orbitRadius, range), numItems);
+    },
+    capacity: context => (range.sweep > 0
+      ? getRingCapacity(getPlacement(context, context.orbitRadius, range), DEFAULT_ITEM_GAP_FACTOR)
+      : 0),
+  };
+}
+
+interface MultiRingLayoutOptions {
+  ringSpacing?: number; // Distance between rings; defaults to 1.2 * itemSize
+  maxItemsPerRing?: number;
+  itemGapFactor?: number;
+}
+
+// Concentric rings: the innermost ring is filled up to what fits on its safe arcs, the rest spill outward
+export function multiRingLayout({ ringSpacing, maxItemsPerRing = Infinity, itemGapFactor = DEFAULT_ITEM_GAP_FACTOR }: MultiRingLayoutOptions = {}): LayoutStrategy {
+  return {
+    layout: context => {
+      const { numItems, orbitRadius, itemSize, bounds } = context;
+      if (numItems === 0 || orbitRadius <= 0) return [];
+      const spacing = Math.max(ringSpacing ?? itemSize * DEFAULT_ITEM_GAP_FACTOR, 1);
+      const maxRadius = Math.hypot(bounds.width, bounds.height); // No ring beyond this can fit anything
+      const positions: ItemPosition[] = [];
+      let radius = orbitRadius;
+
+      while (positions.length < numItems && radius <= maxRadius) {
+        const placement = getPlacement(context, radius);
+        const remaining = numItems - positions.length;
+        // Out of room: the last ring takes whatever is left, overlapping if it has to
+        const isLastRing = radius + spacing > maxRadius;
+        const capacity = Math.min(getRingCapacity(placement, itemGapFactor), maxItemsPerRing);
+        const ringCount = isLastRing ? remaining : Math.min(capacity, remaining);
+        if (ringCount > 0) {
+          positions.push(...distributeOnRing(placement, ringCount).sort(byAngle));
+        }
+        radius += spacing;
+      }
+
+      return positions;
+    },
+  };
+}
+
+interface AutoRadiusLayoutOptions {
+  maxRadius?: number; // Defaults to 4 * orbitRadius
+  itemGapFactor?: number;
+}
+
+// A single ring whose radius grows from orbitRadius until every item fits on its safe arcs without overlap
+export function autoRadiusLayout({ maxRadius, itemGapFactor = DEFAULT_ITEM_GAP_FACTOR }: AutoRadiusLayoutOptions = {}): LayoutStrategy {
+  return {
+    layout: context => {
+      const { numItems, orbitRadius } = context;
+      if (numItems === 0 || orbitRadius <= 0) return [];
+      const radiusLimit = maxRadius ?? orbitRadius * DEFAULT_MAX_RADIUS_FACTOR;
+      let radius = orbitRadius;
+      while (radius + AUTO_RADIUS_STEP <= radiusLimit && getRingCapacity(getPlacement(context, radius), itemGapFactor) < numItems) {
+        radius += AUTO_RADIUS_STEP;
+      }
+      return distributeOnRing(getPlacement(context, radius), numItems).sort(byAngle);
+    },
+    // What fits once the ring has grown as far as it may
+    capacity: context => getRingCapacity(
+      getPlacement(context, maxRadius ?? context.orbitRadius * DEFAULT_MAX_RADIUS_FACTOR),
+      itemGapFactor,
+    ),
+  };
+}
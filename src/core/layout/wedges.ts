@@ -0,0 +1,87 @@
+import type { Point } from '../../utils/pointer';
+import { normalizeAngle, ItemPosition } from './safeArcs';
+
+// One item's slice of a donut, relative to the main button center
+export interface Wedge {
+  startAngle: number; // Radians; the wedge runs clockwise from here
+  sweep: number;
+  innerRadius: number;
+  outerRadius: number;
+}
+
+const FULL_TURN = 2 * Math.PI;
+const VERY_SMALL_NUMBER = 0.00001;
+
+// Positions from layouts that don't report their share of the arcs get half the way to each neighbour on their
+// ring, but no more than `maxHalfSweep` to either side
+function getFallbackSweep(positions: ItemPosition[], index: number, maxHalfSweep: number): { startAngle: number; sweep: number } {
+  const { angle } = positions[index];
+  const radius = Math.hypot(positions[index].x, positions[index].y);
+  const neighbours = positions
+    .filter((other, otherIndex) => otherIndex !== index && Math.abs(Math.hypot(other.x, other.y) - radius) < VERY_SMALL_NUMBER * radius + 1)
+    .map(other => normalizeAngle(other.angle - angle));
+  const before = neighbours.length > 0 ? FULL_TURN - Math.max(...neighbours) : FULL_TURN;
+  const after = neighbours.length > 0 ? Math.min(...neighbours) : FULL_TURN;
+  const halfBefore = Math.min(before / 2, maxHalfSweep);
+  const halfAfter = Math.min(after / 2, maxHalfSweep);
+  return { startAngle: normalizeAngle(angle - halfBefore), sweep: halfBefore + halfAfter };
+}
+
+// A band `bandWidth` thick around each item's radius, over the item's share of the safe arcs
+export function computeWedges(positions: ItemPosition[], bandWidth: number): Wedge[] {
+  return positions.map((position, index) => {
+    const radius = Math.hypot(position.x, position.y);
+    const { startAngle, sweep } = position.wedge ?? getFallbackSweep(positions, index, radius > 0 ? bandWidth / radius : Math.PI);
+    return {
+      startAngle: normalizeAngle(startAngle),
+      sweep: Math.min(sweep, FULL_TURN),
+      innerRadius: Math.max(0, radius - bandWidth / 2),
+      outerRadius: radius + bandWidth / 2,
+    };
+  });
+}
+
+// Where the wedge's content goes: halfway along its middle angle
+export function getWedgeCenter(wedge: Wedge): ItemPosition {
+  const angle = normalizeAngle(wedge.startAngle + wedge.sweep / 2);
+  const radius = (wedge.innerRadius + wedge.outerRadius) / 2;
+  return { x: radius * Math.cos(angle), y: radius * Math.sin(angle), angle };
+}
+
+const polar = (radius: number, angle: number) =>
+  `${(radius * Math.cos(angle)).toFixed(2)} ${(radius * Math.sin(angle)).toFixed(2)}`;
+
+// SVG path data for the wedge, inset by `gap` pixels along both straight edges so neighbours don't touch
+export function describeWedgePath(wedge: Wedge, gap = 0): string {
+  const { innerRadius, outerRadius } = wedge;
+  if (wedge.sweep >= FULL_TURN - VERY_SMALL_NUMBER) {
+    // A whole ring: two half circles each way, since one arc can't start and end at the same point
+    const ring = (radius: number, sweepFlag: 0 | 1) =>
+      `M ${polar(radius, 0)} A ${radius} ${radius} 0 1 ${sweepFlag} ${polar(radius, Math.PI)} A ${radius} ${radius} 0 1 ${sweepFlag} ${polar(radius, 0)} Z`;
+    return innerRadius > 0 ? `${ring(outerRadius, 1)} ${ring(innerRadius, 0)}` : ring(outerRadius, 1);
+  }
+  const outerInset = Math.min(gap / 2 / outerRadius, wedge.sweep / 2);
+  const outerStart = wedge.startAngle + outerInset;
+  const outerEnd = wedge.startAngle + wedge.sweep - outerInset;
+  const largeArc = (end: number, start: number) => (end - start > Math.PI ? 1 : 0);
+  const outer = `M ${polar(outerRadius, outerStart)} A ${outerRadius} ${outerRadius} 0 ${largeArc(outerEnd, outerStart)} 1 ${polar(outerRadius, outerEnd)}`;
+  if (innerRadius <= 0) return `${outer} L 0 0 Z`;
+  const innerInset = Math.min(gap / 2 / innerRadius, wedge.sweep / 2);
+  const innerStart = wedge.startAngle + innerInset;
+  const innerEnd = wedge.startAngle + wedge.sweep - innerInset;
+  return `${outer} L ${polar(innerRadius, innerEnd)} A ${innerRadius} ${innerRadius} 0 ${largeArc(innerEnd, innerStart)} 0 ${polar(innerRadius, innerStart)} Z`;
+}
+
+// The index of the wedge whose angular range holds `point` (relative to the center), or -1. Anywhere in the
+// band [minRadius, maxRadius) counts, not just the drawn shape, so the whole annulus is a target. Where wedges
+// of several rings share the angle, the one whose band is nearest wins.
+export function findWedgeAt(point: Point, wedges: Wedge[], minRadius: number, maxRadius: number): number {
+  const distance = Math.hypot(point.x, point.y);
+  if (distance < minRadius || distance >= maxRadius) return -1;
+  const angle = normalizeAngle(Math.atan2(point.y, point.x));
+  const bandDistance = (wedge: Wedge) => Math.max(wedge.innerRadius - distance, distance - wedge.outerRadius, 0);
+  return wedges.reduce((best, wedge, index) => {
+    if (normalizeAngle(angle - wedge.startAngle) > wedge.sweep + VERY_SMALL_NUMBER) return best;
+    return best < 0 || bandDistance(wedge) < bandDistance(wedges[best]) ? index : best;
+  }, -1);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { computeRingCapacity, computeRingLayout, computeSubmenuRadius } from './layoutEngine';
+import { multiRingLayout } from './layout/strategies';
+
+const BOUNDS = { left: 0, top: 0, width: 1000, height: 800 };
+const MAIN_BUTTON_SIZE = 56;
+const ITEM_SIZE = 40;
+const centeredAt = (x: number, y: number) => ({ x: x - MAIN_BUTTON_SIZE / 2, y: y - MAIN_BUTTON_SIZE / 2 });
+const ring = { mainButtonSize: MAIN_BUTTON_SIZE, orbitRadius: 100, itemSize: ITEM_SIZE, bounds: BOUNDS };
+
+describe('computeRingLayout', () => {
+  it('places the items on the orbit, clockwise and evenly spaced, away from the edges', () => {
+    const positions = computeRingLayout({ ...ring, topLeft: centeredAt(500, 400), numItems: 6 });
+    expect(positions).toHaveLength(6);
+    positions.forEach(position => expect(Math.hypot(position.x, position.y)).toBeCloseTo(100));
+    const angles = positions.map(position => position.angle);
+    angles.slice(1).forEach((angle, index) => expect(angle - angles[index]).toBeCloseTo(Math.PI / 3));
+  });
+
+  it('keeps the items inside the bounds in a corner', () => {
+    const positions = computeRingLayout({ ...ring, topLeft: centeredAt(40, 40), numItems: 3 });
+    expect(positions).toHaveLength(3);
+    positions.forEach(position => {
+      expect(40 + position.x - ITEM_SIZE / 2).toBeGreaterThanOrEqual(0);
+      expect(40 + position.y - ITEM_SIZE / 2).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  it('places nothing without items or a radius', () => {
+    expect(computeRingLayout({ ...ring, topLeft: centeredAt(500, 400), numItems: 0 })).toEqual([]);
+    expect(computeRingLayout({ ...ring, orbitRadius: 0, topLeft: centeredAt(500, 400), numItems: 4 })).toEqual([]);
+  });
+});
+
+describe('computeRingCapacity', () => {
+  it('fits fewer items where the edges cut the ring short', () => {
+    const open = computeRingCapacity({ ...ring, topLeft: centeredAt(500, 400) });
+    const corner = computeRingCapacity({ ...ring, topLeft: centeredAt(40, 40) });
+    expect(open).toBeGreaterThan(corner);
+    expect(corner).toBeGreaterThan(0);
+  });
+
+  it('is unlimited for layouts that make room for any number of items', () => {
+    expect(computeRingCapacity({ ...ring, topLeft: centeredAt(500, 400), layout: multiRingLayout() })).toBe(Infinity);
+  });
+});
+
+describe('computeSubmenuRadius', () => {
+  it('keeps one and a half items between the rings by default', () => {
+    const positions = computeRingLayout({ ...ring, topLeft: centeredAt(500, 400), numItems: 6 });
+    expect(computeSubmenuRadius(positions, 100, ITEM_SIZE)).toBeCloseTo(160);
+  });
+
+  it('starts outside the farthest parent item, even beyond the orbit', () => {
+    const positions = [{ x: 0, y: -100, angle: 0 }, { x: 120, y: 0, angle: Math.PI / 2 }];
+    expect(computeSubmenuRadius(positions, 100, ITEM_SIZE, 30)).toBe(150);
+  });
+});
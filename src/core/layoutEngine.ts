@@ -0,0 +1,78 @@
+import type { Point } from '../utils/pointer';
+import { circleLayout, LayoutStrategy } from './layout/strategies';
+import type { ObstacleRect } from './layout/obstacles';
+import type { ItemPosition, LayoutBounds } from './layout/safeArcs';
+
+export interface RingLayoutInput {
+  topLeft: Point; // Top-left corner of the main button, in viewport coordinates
+  mainButtonSize: number;
+  numItems: number;
+  orbitRadius: number;
+  itemSize: number;
+  bounds: LayoutBounds;
+  layout?: LayoutStrategy;
+  obstacles?: ObstacleRect[];
+  obstaclePadding?: number;
+}
+
+export const DEFAULT_LAYOUT = circleLayout();
+export const SUBMENU_RING_SPACING_FACTOR = 1.5; // Of the item size, between the parent ring and the submenu ring
+
+// Positions of a ring's items relative to the main button center; empty when there is nothing to place
+export function computeRingLayout({
+  topLeft,
+  mainButtonSize,
+  numItems,
+  orbitRadius,
+  itemSize,
+  bounds,
+  layout = DEFAULT_LAYOUT,
+  obstacles,
+  obstaclePadding = 0,
+}: RingLayoutInput): ItemPosition[] {
+  if (numItems === 0 || orbitRadius <= 0) return [];
+  return layout.layout({
+    numItems,
+    orbitRadius,
+    itemSize,
+    center: { x: topLeft.x + mainButtonSize / 2, y: topLeft.y + mainButtonSize / 2 },
+    bounds,
+    obstacles,
+    obstaclePadding,
+  });
+}
+
+// How many items the ring can show without overlapping. Infinity for layouts that make room for any number, like
+// multiRingLayout, and while there is no ring.
+export function computeRingCapacity({
+  topLeft,
+  mainButtonSize,
+  orbitRadius,
+  itemSize,
+  bounds,
+  layout = DEFAULT_LAYOUT,
+  obstacles,
+  obstaclePadding = 0,
+}: Omit<RingLayoutInput, 'numItems'>): number {
+  if (orbitRadius <= 0 || !layout.capacity) return Infinity;
+  return layout.capacity({
+    orbitRadius,
+    itemSize,
+    center: { x: topLeft.x + mainButtonSize / 2, y: topLeft.y + mainButtonSize / 2 },
+    bounds,
+    obstacles,
+    obstaclePadding,
+  });
+}
+
+// Radius of the submenu ring. Layouts may push items beyond orbitRadius, so it starts `spacing` outside the
+// farthest item of the parent ring.
+export function computeSubmenuRadius(
+  parentPositions: ItemPosition[],
+  orbitRadius: number,
+  itemSize: number,
+  spacing = itemSize * SUBMENU_RING_SPACING_FACTOR,
+): number {
+  const parentExtent = parentPositions.reduce((max, pos) => Math.max(max, Math.hypot(pos.x, pos.y)), orbitRadius);
+  return parentExtent + spacing;
+}
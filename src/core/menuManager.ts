@@ -0,0 +1,124 @@
+import { areRectListsEqual, ObstacleRect } from './layout/obstacles';
+
+// What a menu takes up on screen, in viewport coordinates. Context menus have no button while closed.
+export interface MenuFootprint {
+  button: ObstacleRect | null;
+  ring: ObstacleRect[]; // Empty while closed
+}
+
+// A menu as the manager knows it; anything else the host needs to reach it by can be added by extending this
+export interface ManagedMenu {
+  close: () => void; // Called when another menu opens and only one may be open at a time
+}
+
+export interface MenuManagerSnapshot {
+  stack: string[]; // Registered menu ids, back to front
+  openIds: string[];
+  footprints: Record<string, MenuFootprint>;
+}
+
+export interface MenuManagerOptions {
+  singleOpen?: boolean; // Opening a menu closes the others; true by default
+}
+
+// Coordinates the menus on one page: which are open, which is in front and where each one is, so they neither
+// overlap nor fight over the keyboard. Snapshots are immutable, so they can back useSyncExternalStore.
+export interface MenuManager<T extends ManagedMenu = ManagedMenu> {
+  register: (id: string, menu: T) => () => void; // A new menu starts in front
+  getMenu: (id: string) => T | undefined;
+  setOpen: (id: string, open: boolean) => void; // Opening brings the menu to the front
+  bringToFront: (id: string) => void;
+  setFootprint: (id: string, footprint: MenuFootprint) => void;
+  setSingleOpen: (singleOpen: boolean) => void;
+  isSingleOpen: () => boolean;
+  getSnapshot: () => MenuManagerSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const EMPTY_SNAPSHOT: MenuManagerSnapshot = { stack: [], openIds: [], footprints: {} };
+
+const toFront = (stack: string[], id: string) => [...stack.filter(other => other !== id), id];
+
+const isSameFootprint = (a: MenuFootprint, b: MenuFootprint) =>
+  areRectListsEqual(a.button ? [a.button] : [], b.button ? [b.button] : []) && areRectListsEqual(a.ring, b.ring);
+
+export function createMenuManager<T extends ManagedMenu = ManagedMenu>({ singleOpen = true }: MenuManagerOptions = {}): MenuManager<T> {
+  const menus = new Map<string, T>();
+  const listeners = new Set<() => void>();
+  let snapshot = EMPTY_SNAPSHOT;
+  let isSingleOpen = singleOpen;
+
+  const update = (next: MenuManagerSnapshot) => {
+    snapshot = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    register: (id, menu) => {
+      menus.set(id, menu);
+      update({ ...snapshot, stack: toFront(snapshot.stack, id) });
+      return () => {
+        if (menus.get(id) !== menu) return; // Already replaced by a newer registration under the same id
+        menus.delete(id);
+        const footprints = { ...snapshot.footprints };
+        delete footprints[id];
+        update({
+          stack: snapshot.stack.filter(other => other !== id),
+          openIds: snapshot.openIds.filter(other => other !== id),
+          footprints,
+        });
+      };
+    },
+    getMenu: id => menus.get(id),
+    setOpen: (id, open) => {
+      if (open === snapshot.openIds.includes(id) || !menus.has(id)) return;
+      if (!open) {
+        update({ ...snapshot, openIds: snapshot.openIds.filter(other => other !== id) });
+        return;
+      }
+      const closing = isSingleOpen ? snapshot.openIds : [];
+      update({
+        ...snapshot,
+        stack: toFront(snapshot.stack, id),
+        openIds: [...snapshot.openIds.filter(other => !closing.includes(other)), id],
+      });
+      closing.forEach(other => menus.get(other)?.close());
+    },
+    bringToFront: id => {
+      if (snapshot.stack[snapshot.stack.length - 1] === id || !menus.has(id)) return;
+      update({ ...snapshot, stack: toFront(snapshot.stack, id) });
+    },
+    setFootprint: (id, footprint) => {
+      const current = snapshot.footprints[id];
+      if (!menus.has(id) || (current && isSameFootprint(current, footprint))) return;
+      update({ ...snapshot, footprints: { ...snapshot.footprints, [id]: footprint } });
+    },
+    setSingleOpen: value => {
+      isSingleOpen = value;
+    },
+    isSingleOpen: () => isSingleOpen,
+    getSnapshot: () => snapshot,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Open menus, frontmost first
+export function getOpenMenuIds(snapshot: MenuManagerSnapshot): string[] {
+  return snapshot.stack.filter(id => snapshot.openIds.includes(id)).reverse();
+}
+
+// What menu `id` keeps its rings clear of: every other menu's button, and the rings of the menus behind it. The
+// menus behind don't make room for the ones in front, so two open menus never chase each other around.
+export function getMenuObstacles(snapshot: MenuManagerSnapshot, id: string): ObstacleRect[] {
+  const ownIndex = snapshot.stack.indexOf(id);
+  return snapshot.stack.flatMap((otherId, index) => {
+    const footprint = snapshot.footprints[otherId];
+    if (otherId === id || !footprint) return [];
+    return [...(footprint.button ? [footprint.button] : []), ...(index < ownIndex ? footprint.ring : [])];
+  });
+}
@@ -0,0 +1,94 @@
+import { hasChildren, MenuTreeNode } from './menuTree';
+import { getAngularDistance } from '../utils/pointer';
+
+// What a user changed about one menu. Only ids are stored, so preferences survive edits to the items themselves:
+// unknown ids are ignored and items added later show up at their default place.
+export interface MenuPreferences {
+  order: Record<string, string[]>; // Item ids of each ring in the user's order, keyed by the parent's id
+  hidden: string[];
+  pinned: string[]; // Keep their slot when the order adapts to usage
+  usage: Record<string, number>; // How often each item was selected
+}
+
+export const ROOT_RING_KEY = ''; // Key of the top-level ring in `order`
+
+export const DEFAULT_MENU_PREFERENCES: MenuPreferences = { order: {}, hidden: [], pinned: [], usage: {} };
+
+// Items in the stored order; ones the stored order doesn't mention keep their default index
+function orderRing<T extends MenuTreeNode<T>>(items: T[], storedOrder: string[] | undefined): T[] {
+  if (!storedOrder) return items;
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const ordered = storedOrder.map(id => itemsById.get(id)).filter((item): item is T => item !== undefined);
+  const listedIds = new Set(ordered.map(item => item.id));
+  items.forEach((item, index) => {
+    if (!listedIds.has(item.id)) ordered.splice(Math.min(index, ordered.length), 0, item);
+  });
+  return ordered;
+}
+
+// The tree as the user arranged it. Hidden items are dropped unless `includeHidden` is set, e.g. while editing.
+export function applyMenuPreferences<T extends MenuTreeNode<T>>(
+  items: T[],
+  preferences: MenuPreferences,
+  includeHidden = false,
+  parentKey = ROOT_RING_KEY,
+): T[] {
+  const hiddenIds = new Set(preferences.hidden);
+  return orderRing(items, preferences.order[parentKey])
+    .filter(item => includeHidden || !hiddenIds.has(item.id))
+    .map(item => (hasChildren(item)
+      ? { ...item, children: applyMenuPreferences(item.children!, preferences, includeHidden, item.id) }
+      : item));
+}
+
+// Reassigns a laid-out ring's slots so the most-used items sit nearest `preferredAngle` (radians). Pinned items
+// keep the slot they're in, and items that were never used fill what's left in their current order, so a menu
+// nobody has used yet looks exactly as configured.
+export function arrangeByUsage<T extends { id: string }>(
+  items: T[],
+  positions: { angle: number }[],
+  { pinned, usage, preferredAngle }: { pinned: string[]; usage: Record<string, number>; preferredAngle: number },
+): T[] {
+  if (positions.length !== items.length) return items;
+  const pinnedIds = new Set(pinned);
+  const arranged: (T | undefined)[] = items.map(item => (pinnedIds.has(item.id) ? item : undefined));
+  const freeSlots = positions.map((_, index) => index).filter(index => !arranged[index]);
+  const movable = items.filter(item => !pinnedIds.has(item.id));
+  const used = movable
+    .filter(item => (usage[item.id] ?? 0) > 0)
+    .sort((a, b) => usage[b.id] - usage[a.id]); // Stable, so ties keep their order
+  const easiestSlots = [...freeSlots]
+    .sort((a, b) => getAngularDistance(positions[a].angle, preferredAngle) - getAngularDistance(positions[b].angle, preferredAngle))
+    .slice(0, used.length);
+  used.forEach((item, rank) => { arranged[easiestSlots[rank]] = item; });
+  const unused = movable.filter(item => !(usage[item.id] > 0));
+  freeSlots.filter(index => !arranged[index]).forEach((index, rank) => { arranged[index] = unused[rank]; });
+  return arranged as T[];
+}
+
+// `ringIds` is the ring as currently shown, hidden items included
+export function moveMenuItem(
+  preferences: MenuPreferences,
+  parentKey: string,
+  ringIds: string[],
+  itemId: string,
+  toIndex: number,
+): MenuPreferences {
+  const order = ringIds.filter(id => id !== itemId);
+  order.splice(Math.max(0, Math.min(toIndex, order.length)), 0, itemId);
+  return { ...preferences, order: { ...preferences.order, [parentKey]: order } };
+}
+
+export function setMenuItemFlag(
+  preferences: MenuPreferences,
+  flag: 'hidden' | 'pinned',
+  itemId: string,
+  value: boolean,
+): MenuPreferences {
+  const ids = preferences[flag].filter(id => id !== itemId);
+  return { ...preferences, [flag]: value ? [...ids, itemId] : ids };
+}
+
+export function recordMenuItemUse(preferences: MenuPreferences, itemId: string): MenuPreferences {
+  return { ...preferences, usage: { ...preferences.usage, [itemId]: (preferences.usage[itemId] ?? 0) + 1 } };
+}
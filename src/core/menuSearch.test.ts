@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyMatch } from './menuSearch';
+
+describe('fuzzyMatch', () => {
+  it('prefers matches at word starts', () => {
+    expect(fuzzyMatch('em', 'Send Email')?.indices).toEqual([5, 6]);
+  });
+
+  it('counts code points, so characters after an emoji keep their position', () => {
+    const label = '🎉 Party';
+    expect(fuzzyMatch('pa', label)?.indices).toEqual([2, 3]);
+    expect(Array.from(label).slice(2, 4).join('')).toBe('Pa');
+  });
+
+  it('finds nothing for an empty query or missing characters', () => {
+    expect(fuzzyMatch('  ', 'Email')).toBeNull();
+    expect(fuzzyMatch('ex', 'Email')).toBeNull();
+  });
+});
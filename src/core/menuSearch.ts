@@ -0,0 +1,72 @@
+import { hasChildren, MenuTreeNode } from './menuTree';
+
+export interface FuzzyMatch {
+  score: number;
+  indices: number[]; // Positions in the text of the matched query characters, counted in code points like Array.from
+}
+
+export interface MenuSearchResult<T extends MenuTreeNode<T>> {
+  item: T;
+  path: string[]; // Ids of the parents the item is nested in, outermost first
+  score: number;
+  labelIndices: number[]; // Matched characters of the label; empty when only the description matched
+}
+
+const CONSECUTIVE_BONUS = 4;
+const WORD_START_BONUS = 6;
+const LEADING_GAP_PENALTY = 0.1; // Per character skipped before the first match
+const DESCRIPTION_WEIGHT = 0.5; // A description match counts for less than the same label match
+const WORD_SEPARATOR = /[\s\-_/.]/;
+
+// Matches the query's characters in order (not necessarily adjacent), case-insensitively. Every occurrence of the
+// first character is tried as a starting point and the best scoring alignment wins, so "em" prefers the "Em" of
+// "Email" over the "e" of "Send". Works on code points, so an emoji counts as one character and lowercasing can't
+// shift the positions.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const normalizedQuery = Array.from(query.trim(), char => char.toLowerCase());
+  const normalizedText = Array.from(text, char => char.toLowerCase());
+  if (normalizedQuery.length === 0) return null;
+
+  let best: FuzzyMatch | null = null;
+  for (let start = normalizedText.indexOf(normalizedQuery[0]); start !== -1; start = normalizedText.indexOf(normalizedQuery[0], start + 1)) {
+    const indices = [start];
+    let searchFrom = start + 1;
+    for (let i = 1; i < normalizedQuery.length && indices.length === i; i++) {
+      const index = normalizedText.indexOf(normalizedQuery[i], searchFrom);
+      if (index === -1) break;
+      indices.push(index);
+      searchFrom = index + 1;
+    }
+    if (indices.length !== normalizedQuery.length) break; // Later starts can only find fewer characters
+
+    const score = indices.reduce((total, index, i) => {
+      const isConsecutive = i > 0 && index === indices[i - 1] + 1;
+      const isWordStart = index === 0 || WORD_SEPARATOR.test(normalizedText[index - 1]);
+      return total + 1 + (isConsecutive ? CONSECUTIVE_BONUS : 0) + (isWordStart ? WORD_START_BONUS : 0);
+    }, 0) - start * LEADING_GAP_PENALTY;
+
+    if (!best || score > best.score) best = { score, indices };
+  }
+  return best;
+}
+
+// Searches the whole tree, parents included, by label and description. Best matches come first.
+export function searchMenuItems<T extends MenuTreeNode<T>>(items: T[], query: string, limit: number): MenuSearchResult<T>[] {
+  const results: MenuSearchResult<T>[] = [];
+
+  const visit = (levelItems: T[], path: string[]) => {
+    for (const item of levelItems) {
+      const labelMatch = fuzzyMatch(query, item.label);
+      const descriptionMatch = item.description ? fuzzyMatch(query, item.description) : null;
+      const score = Math.max(labelMatch?.score ?? -Infinity, (descriptionMatch?.score ?? -Infinity) * DESCRIPTION_WEIGHT);
+      if (labelMatch || descriptionMatch) {
+        results.push({ item, path, score, labelIndices: labelMatch?.indices ?? [] });
+      }
+      if (hasChildren(item)) visit(item.children!, [...path, item.id]);
+    }
+  };
+  visit(items, []);
+
+  // Stable sort keeps tree order between equally good matches
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { getMenuRings, menuNavigationReducer, resolveActivation, INITIAL_NAVIGATION_STATE } from './menuState';
+
+interface Item {
+  id: string;
+  label: string;
+  disabled?: boolean;
+  children?: Item[];
+}
+
+const items: Item[] = [
+  { id: 'home', label: 'Home' },
+  {
+    id: 'share', label: 'Share', children: [
+      { id: 'share-email', label: 'Email' },
+      { id: 'share-more', label: 'More', children: [{ id: 'share-print', label: 'Print' }] },
+    ],
+  },
+  { id: 'delete', label: 'Delete', disabled: true },
+];
+
+describe('menuNavigationReducer', () => {
+  it('ends the search when the path is set and backs out one level at a time', () => {
+    const searching = menuNavigationReducer(INITIAL_NAVIGATION_STATE, { type: 'setQuery', query: 'em' });
+    const opened = menuNavigationReducer(searching, { type: 'setPath', path: ['share', 'share-more'] });
+    expect(opened).toEqual({ path: ['share', 'share-more'], query: '' });
+    expect(menuNavigationReducer(opened, { type: 'back' }).path).toEqual(['share']);
+    expect(menuNavigationReducer(INITIAL_NAVIGATION_STATE, { type: 'back' })).toBe(INITIAL_NAVIGATION_STATE);
+  });
+});
+
+describe('getMenuRings', () => {
+  it('shows the opened parent ring inside its children', () => {
+    const rings = getMenuRings(items, { path: ['share', 'share-more'], query: '' });
+    expect(rings.innerRingItems.map(item => item.id)).toEqual(['share-email', 'share-more']);
+    expect(rings.outerRingItems.map(item => item.id)).toEqual(['share-print']);
+    expect(rings.activeParent?.id).toBe('share-more');
+  });
+
+  it('ignores the path of a stale id', () => {
+    const rings = getMenuRings(items, { path: ['gone'], query: '' });
+    expect(rings.innerRingItems).toBe(items);
+    expect(rings.outerRingItems).toEqual([]);
+  });
+
+  it('searches the whole tree in one ring', () => {
+    const rings = getMenuRings(items, { path: [], query: 'print' });
+    expect(rings.isSearching).toBe(true);
+    expect(rings.innerRingItems.map(item => item.id)).toEqual(['share-print']);
+    expect(rings.searchResults[0].path).toEqual(['share', 'share-more']);
+  });
+});
+
+describe('resolveActivation', () => {
+  const state = INITIAL_NAVIGATION_STATE;
+  const rings = getMenuRings(items, state);
+
+  it('opens a parent and selects a leaf', () => {
+    expect(resolveActivation(items, state, rings, items[1], false)).toEqual({ type: 'navigate', path: ['share'], focusId: 'share-email' });
+    expect(resolveActivation(items, state, rings, items[0], false)).toEqual({ type: 'select', siblings: items });
+  });
+
+  it('ignores disabled items', () => {
+    expect(resolveActivation(items, state, rings, items[2], false)).toEqual({ type: 'ignore' });
+  });
+
+  it('collapses the open parent when it is activated again', () => {
+    const openState = { path: ['share'], query: '' };
+    const openRings = getMenuRings(items, openState);
+    expect(resolveActivation(items, openState, openRings, items[1], false)).toEqual({ type: 'navigate', path: [], focusId: 'share' });
+  });
+
+  it('opens a parent found by search in its place in the tree', () => {
+    const searchState = { path: [], query: 'more' };
+    const searchRings = getMenuRings(items, searchState);
+    const found = searchRings.innerRingItems.find(item => item.id === 'share-more')!;
+    expect(resolveActivation(items, searchState, searchRings, found, false)).toEqual({
+      type: 'navigate', path: ['share', 'share-more'], focusId: 'share-print',
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { getItemsAtPath, hasChildren, MenuTreeNode, resolveMenuPath } from './menuTree';
+import { MenuSearchResult, searchMenuItems } from './menuSearch';
+
+// Where the user is in the menu tree. Whether the menu is open is tracked by the adapter, because it may be
+// controlled from outside and outlives this state while the exit animation plays.
+export interface MenuNavigationState {
+  path: string[]; // Ids of the opened parent items, outermost first
+  query: string; // Search text; the path is kept while searching so clearing the search returns there
+}
+
+export type MenuNavigationAction =
+  | { type: 'setPath'; path: string[] } // Also ends any search
+  | { type: 'back' }
+  | { type: 'setQuery'; query: string }
+  | { type: 'appendQuery'; text: string }
+  | { type: 'reset' };
+
+export const INITIAL_NAVIGATION_STATE: MenuNavigationState = { path: [], query: '' };
+export const DEFAULT_MAX_SEARCH_RESULTS = 12;
+
+export function menuNavigationReducer(state: MenuNavigationState, action: MenuNavigationAction): MenuNavigationState {
+  switch (action.type) {
+    case 'setPath':
+      return { path: action.path, query: '' };
+    case 'back':
+      return state.path.length > 0 ? { ...state, path: state.path.slice(0, -1) } : state;
+    case 'setQuery':
+      return action.query === state.query ? state : { ...state, query: action.query };
+    case 'appendQuery':
+      return { ...state, query: state.query + action.text };
+    case 'reset':
+      return state.path.length === 0 && state.query === '' ? state : INITIAL_NAVIGATION_STATE;
+  }
+}
+
+// At most two rings are shown: the level holding the opened parent (inner) and that parent's children (outer).
+// While searching, a single ring shows the matches from anywhere in the tree.
+export interface MenuRings<T extends MenuTreeNode<T>> {
+  isSearching: boolean;
+  searchResults: MenuSearchResult<T>[];
+  openedParents: T[];
+  activeParent: T | null;
+  innerRingItems: T[];
+  outerRingItems: T[];
+}
+
+export function getMenuRings<T extends MenuTreeNode<T>>(
+  items: T[],
+  state: MenuNavigationState,
+  maxSearchResults = DEFAULT_MAX_SEARCH_RESULTS,
+): MenuRings<T> {
+  const isSearching = state.query.trim().length > 0;
+  const searchResults = isSearching ? searchMenuItems(items, state.query, maxSearchResults) : [];
+  const openedParents = resolveMenuPath(items, state.path);
+  const activeParent = !isSearching && openedParents.length > 0 ? openedParents[openedParents.length - 1] : null;
+  const innerRingItems = isSearching
+    ? searchResults.map(result => result.item)
+    : (openedParents.length > 1 ? openedParents[openedParents.length - 2].children! : items);
+  return {
+    isSearching,
+    searchResults,
+    openedParents,
+    activeParent,
+    innerRingItems,
+    outerRingItems: activeParent ? activeParent.children! : [],
+  };
+}
+
+export type ActivationOutcome<T> =
+  | { type: 'ignore' } // Disabled items
+  | { type: 'navigate'; path: string[]; focusId: string } // Opens or collapses a submenu
+  | { type: 'select'; siblings: T[] }; // A leaf: run it. Siblings are the level it lives on, for radio groups.
+
+// Decides what activating `item` means, without performing it
+export function resolveActivation<T extends MenuTreeNode<T>>(
+  items: T[],
+  state: MenuNavigationState,
+  rings: MenuRings<T>,
+  item: T,
+  isInOuterRing: boolean,
+): ActivationOutcome<T> {
+  if (item.disabled) return { type: 'ignore' };
+  const searchResultPath = rings.isSearching
+    ? rings.searchResults.find(result => result.item.id === item.id)?.path
+    : undefined;
+
+  if (hasChildren(item)) {
+    if (searchResultPath) {
+      // A parent found by search opens in its place in the tree
+      return { type: 'navigate', path: [...searchResultPath, item.id], focusId: item.children![0].id };
+    }
+    // The submenu always opens one level below the ring the item sits in; activating the open parent collapses it
+    const ringDepth = isInOuterRing ? rings.openedParents.length : Math.max(rings.openedParents.length - 1, 0);
+    const basePath = state.path.slice(0, ringDepth);
+    const isCollapsing = rings.activeParent?.id === item.id && !isInOuterRing;
+    return isCollapsing
+      ? { type: 'navigate', path: basePath, focusId: item.id }
+      : { type: 'navigate', path: [...basePath, item.id], focusId: item.children![0].id };
+  }
+
+  const siblings = searchResultPath
+    ? getItemsAtPath(items, searchResultPath)
+    : (isInOuterRing ? rings.outerRingItems : rings.innerRingItems);
+  return { type: 'select', siblings };
+}
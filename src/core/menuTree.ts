@@ -0,0 +1,54 @@
+// The shape the core needs from a menu item; adapters extend it with icons, actions and the like
+export interface MenuTreeNode<Self = unknown> {
+  id: string;
+  label: string;
+  description?: string;
+  disabled?: boolean;
+  children?: Self[];
+}
+
+export function hasChildren(item: MenuTreeNode): boolean {
+  return !!item.children && item.children.length > 0;
+}
+
+// Walks `path` (a list of parent item ids) from the root and returns the parent items it passes through.
+// Resolution stops at the first id that doesn't match a parent at that level, so a stale path degrades gracefully.
+export function resolveMenuPath<T extends MenuTreeNode<T>>(items: T[], path: string[]): T[] {
+  const resolved: T[] = [];
+  let levelItems = items;
+
+  for (const id of path) {
+    const parent = levelItems.find(item => item.id === id);
+    if (!parent || !hasChildren(parent)) break;
+    resolved.push(parent);
+    levelItems = parent.children!;
+  }
+
+  return resolved;
+}
+
+// Returns the ids of the parents that have to be opened to reach the item with `id`, or null if it isn't in the tree
+export function findItemPath<T extends MenuTreeNode<T>>(items: T[], id: string): string[] | null {
+  for (const item of items) {
+    if (item.id === id) return [];
+    if (hasChildren(item)) {
+      const childPath = findItemPath(item.children!, id);
+      if (childPath) return [item.id, ...childPath];
+    }
+  }
+  return null;
+}
+
+// The items of the level reached by walking `path`: the root items for an empty path
+export function getItemsAtPath<T extends MenuTreeNode<T>>(items: T[], path: string[]): T[] {
+  const parents = resolveMenuPath(items, path);
+  return parents.length > 0 ? parents[parents.length - 1].children! : items;
+}
+
+// Every item in the tree, depth first, with the ids of its parents
+export function flattenMenuTree<T extends MenuTreeNode<T>>(items: T[], path: string[] = []): { item: T; path: string[] }[] {
+  return items.flatMap(item => [
+    { item, path },
+    ...(hasChildren(item) ? flattenMenuTree(item.children!, [...path, item.id]) : []),
+  ]);
+}
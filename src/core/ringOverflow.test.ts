@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getRingWindow, revealRingIndex } from './ringOverflow';
+
+const items = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+describe('getRingWindow', () => {
+  it('shows everything when the ring fits or squeezes', () => {
+    expect(getRingWindow(items, 10, 'pages', 0)).toEqual({
+      items, indices: [0, 1, 2, 3, 4, 5, 6], page: 0, pageCount: 1, hasMoreSlot: false,
+    });
+    expect(getRingWindow(items, 3, 'squeeze', 2).items).toEqual(items);
+  });
+
+  it('keeps a slot for the more item on every page, and wraps past the last one', () => {
+    expect(getRingWindow(items, 4, 'pages', 0)).toMatchObject({ items: ['a', 'b', 'c'], page: 0, pageCount: 3, hasMoreSlot: true });
+    expect(getRingWindow(items, 4, 'pages', 2)).toMatchObject({ items: ['g'], indices: [6], page: 2 });
+    expect(getRingWindow(items, 4, 'pages', 3).page).toBe(0);
+    expect(getRingWindow(items, 4, 'pages', -1).page).toBe(2);
+  });
+
+  it('rotates one item at a time, wrapping around the end', () => {
+    expect(getRingWindow(items, 3, 'rotate', 5)).toMatchObject({ items: ['f', 'g', 'a'], indices: [5, 6, 0], hasMoreSlot: false });
+  });
+
+  it('squeezes when there is no room for an item and a way to the others', () => {
+    expect(getRingWindow(items, 1, 'pages', 0).items).toEqual(items);
+  });
+});
+
+describe('revealRingIndex', () => {
+  it('keeps the offset while the item is shown and moves to it otherwise', () => {
+    expect(revealRingIndex(items, 4, 'pages', 0, 2)).toBe(0);
+    expect(revealRingIndex(items, 4, 'pages', 0, 4)).toBe(1);
+    expect(revealRingIndex(items, 3, 'rotate', 0, 5)).toBe(5);
+  });
+});
@@ -0,0 +1,51 @@
+// What a ring does with more items than fit: 'squeeze' crowds them all onto the safe arcs, 'pages' shows them a
+// page at a time with a "more" slot to turn the page, and 'rotate' shows a window that scrolls one item at a time
+export type RingOverflow = 'squeeze' | 'pages' | 'rotate';
+
+// The part of a ring that is on screen
+export interface RingWindow<T> {
+  items: T[];
+  indices: number[]; // Where each shown item sits in the full ring
+  page: number;
+  pageCount: number; // 1 when everything fits
+  hasMoreSlot: boolean; // The ring needs one extra slot after `items` for the "more" item
+}
+
+// Below this there's no room for an item and a way to reach the others, so the ring is squeezed instead
+const MIN_OVERFLOW_CAPACITY = 2;
+
+const wrap = (value: number, count: number) => ((value % count) + count) % count;
+
+// `offset` counts pages for 'pages' and items for 'rotate'. It wraps, so scrolling past the end starts over.
+export function getRingWindow<T>(items: T[], capacity: number, overflow: RingOverflow, offset: number): RingWindow<T> {
+  const count = items.length;
+  if (overflow === 'squeeze' || count <= capacity || capacity < MIN_OVERFLOW_CAPACITY) {
+    return { items, indices: items.map((_, index) => index), page: 0, pageCount: 1, hasMoreSlot: false };
+  }
+
+  if (overflow === 'pages') {
+    const perPage = capacity - 1;
+    const pageCount = Math.ceil(count / perPage);
+    const page = wrap(offset, pageCount);
+    const indices = Array.from({ length: Math.min(perPage, count - page * perPage) }, (_, index) => page * perPage + index);
+    return { items: indices.map(index => items[index]), indices, page, pageCount, hasMoreSlot: true };
+  }
+
+  const start = wrap(offset, count);
+  const indices = Array.from({ length: capacity }, (_, index) => (start + index) % count);
+  const pageCount = Math.ceil(count / capacity);
+  return {
+    items: indices.map(index => items[index]),
+    indices,
+    page: Math.floor(start / capacity) % pageCount, // The page the window mostly overlaps, for the indicator
+    pageCount,
+    hasMoreSlot: false,
+  };
+}
+
+// The offset that brings the item at `index` into view, or the current one when it is already shown
+export function revealRingIndex<T>(items: T[], capacity: number, overflow: RingOverflow, offset: number, index: number): number {
+  const current = getRingWindow(items, capacity, overflow, offset);
+  if (current.indices.includes(index)) return offset;
+  return overflow === 'pages' ? Math.floor(index / (capacity - 1)) : index;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createShortcutRegistry } from './shortcutRegistry';
+
+const binding = (owner: string, target = 'open menu') => ({ shortcut: 'alt+m', owner, target });
+
+describe('createShortcutRegistry', () => {
+  it('lets the first registration of a combination own it', () => {
+    const registry = createShortcutRegistry();
+    const first = binding('Main menu');
+    const second = binding('Tools menu');
+    registry.register([first]);
+    registry.register([second]);
+    expect(registry.isActive(first)).toBe(true);
+    expect(registry.isActive(second)).toBe(false);
+  });
+
+  it('reports a clash to both registrations', () => {
+    const registry = createShortcutRegistry();
+    const onFirstConflict = vi.fn();
+    const onSecondConflict = vi.fn();
+    const first = binding('Main menu');
+    const second = binding('Tools menu');
+    registry.register([first], onFirstConflict);
+    expect(onFirstConflict).not.toHaveBeenCalled();
+
+    const { conflicts } = registry.register([second], onSecondConflict);
+    expect(conflicts).toEqual([{ shortcut: 'alt+m', bindings: [first, second] }]);
+    expect(onFirstConflict).toHaveBeenCalledWith(conflicts);
+    expect(onSecondConflict).toHaveBeenCalledWith(conflicts);
+  });
+
+  it('hands the combination to the next registration once the owner is removed', () => {
+    const registry = createShortcutRegistry();
+    const onFirstConflict = vi.fn();
+    const first = binding('Main menu');
+    const second = binding('Tools menu');
+    const { unregister } = registry.register([first], onFirstConflict);
+    registry.register([second]);
+    unregister();
+    expect(registry.isActive(second)).toBe(true);
+
+    registry.register([binding('Edit menu')]);
+    expect(onFirstConflict).toHaveBeenCalledTimes(1);
+  });
+});
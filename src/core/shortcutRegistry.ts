@@ -0,0 +1,69 @@
+// Page-wide bookkeeping of the shortcuts menus listen for, so two menus (or two items) bound to the same keys
+// are noticed. The first registration of a combination owns it and later ones don't fire until it is removed.
+// Every registration taking part in a clash hears about it, the owner as well as the newcomer.
+export interface ShortcutBinding {
+  shortcut: string; // Normalized, see normalizeShortcut
+  owner: string; // Usually the menu's label
+  target: string; // What the keys do, e.g. "open menu" or an item label
+}
+
+export interface ShortcutConflict {
+  shortcut: string;
+  bindings: ShortcutBinding[]; // The owning binding first
+}
+
+export interface ShortcutRegistry {
+  // Returns the conflicts these bindings are part of, and a function that removes them again. `onConflict` is
+  // called with those conflicts, and again whenever a later registration clashes with these bindings.
+  register: (
+    bindings: ShortcutBinding[],
+    onConflict?: (conflicts: ShortcutConflict[]) => void,
+  ) => { conflicts: ShortcutConflict[]; unregister: () => void };
+  isActive: (binding: ShortcutBinding) => boolean; // Whether it owns its combination
+}
+
+export function createShortcutRegistry(): ShortcutRegistry {
+  const bindingsByShortcut = new Map<string, ShortcutBinding[]>();
+  const listeners = new Map<ShortcutBinding, (conflicts: ShortcutConflict[]) => void>();
+
+  return {
+    register: (bindings, onConflict) => {
+      bindings.forEach(binding => {
+        bindingsByShortcut.set(binding.shortcut, [...(bindingsByShortcut.get(binding.shortcut) ?? []), binding]);
+        if (onConflict) listeners.set(binding, onConflict);
+      });
+      const conflicts = Array.from(new Set(bindings.map(binding => binding.shortcut)))
+        .map(shortcut => ({ shortcut, bindings: bindingsByShortcut.get(shortcut) ?? [] }))
+        .filter(conflict => conflict.bindings.length > 1);
+
+      // Each registration is told once, about the conflicts its own bindings are in
+      const notified = new Set(bindings.map(binding => listeners.get(binding)));
+      conflicts.forEach(conflict => conflict.bindings.forEach(binding => {
+        const listener = listeners.get(binding);
+        if (!listener || notified.has(listener)) return;
+        notified.add(listener);
+        listener(conflicts.filter(other => other.bindings.some(otherBinding => listeners.get(otherBinding) === listener)));
+      }));
+      if (conflicts.length > 0) onConflict?.(conflicts);
+
+      return {
+        conflicts,
+        unregister: () => {
+          bindings.forEach(binding => {
+            listeners.delete(binding);
+            const remaining = (bindingsByShortcut.get(binding.shortcut) ?? []).filter(other => other !== binding);
+            if (remaining.length > 0) {
+              bindingsByShortcut.set(binding.shortcut, remaining);
+            } else {
+              bindingsByShortcut.delete(binding.shortcut);
+            }
+          });
+        },
+      };
+    },
+    isActive: binding => bindingsByShortcut.get(binding.shortcut)?.[0] === binding,
+  };
+}
+
+// Shared by every menu on the page unless one is given its own
+export const defaultShortcutRegistry = createShortcutRegistry();
@@ -0,0 +1,112 @@
+// Key combinations written like "Mod+Shift+K", "Alt+1" or "Escape". "Mod" is ⌘ on Apple platforms and Ctrl
+// elsewhere, so one definition works on both.
+export interface Shortcut {
+  key: string; // Lowercase; a single character, or a key name like "escape", "enter" or "arrowup"
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+// The parts of a KeyboardEvent a shortcut is matched against
+export interface KeyStroke {
+  key: string;
+  code?: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+const MODIFIER_ALIASES: Record<string, keyof Omit<Shortcut, 'key'> | 'mod'> = {
+  ctrl: 'ctrl', control: 'ctrl',
+  alt: 'alt', option: 'alt', opt: 'alt',
+  shift: 'shift',
+  meta: 'meta', cmd: 'meta', command: 'meta', super: 'meta', win: 'meta',
+  mod: 'mod',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape', return: 'enter', space: ' ', spacebar: ' ', plus: '+', del: 'delete',
+  up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright',
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space', escape: 'Esc', arrowup: '↑', arrowdown: '↓', arrowleft: '←', arrowright: '→',
+};
+
+// Returns null for text that isn't exactly one key with optional modifiers
+export function parseShortcut(text: string, isApplePlatform: boolean): Shortcut | null {
+  // A trailing "+" is the plus key itself, as in "Mod++"
+  const parts = text.trim().replace(/\+\+$/, '+plus').split('+').map(part => part.trim().toLowerCase());
+  const shortcut: Shortcut = { key: '', ctrl: false, alt: false, shift: false, meta: false };
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part];
+    if (modifier) {
+      shortcut[modifier === 'mod' ? (isApplePlatform ? 'meta' : 'ctrl') : modifier] = true;
+    } else if (part && !shortcut.key) {
+      shortcut.key = KEY_ALIASES[part] ?? part;
+    } else {
+      return null;
+    }
+  }
+  return shortcut.key ? shortcut : null;
+}
+
+// Canonical text, equal for shortcuts that are the same key combination however they were written
+export function normalizeShortcut({ key, ctrl, alt, shift, meta }: Shortcut): string {
+  return [ctrl && 'ctrl', alt && 'alt', shift && 'shift', meta && 'meta', key === ' ' ? 'space' : key].filter(Boolean).join('+');
+}
+
+export function matchesShortcut(stroke: KeyStroke, shortcut: Shortcut): boolean {
+  if (stroke.ctrlKey !== shortcut.ctrl || stroke.altKey !== shortcut.alt || stroke.metaKey !== shortcut.meta) return false;
+  if (stroke.shiftKey !== shortcut.shift) return false;
+  // Letters and digits are matched by physical key too, since Alt and Shift change the character they type
+  if (/^[a-z]$/.test(shortcut.key) && stroke.code === `Key${shortcut.key.toUpperCase()}`) return true;
+  if (/^[0-9]$/.test(shortcut.key) && stroke.code === `Digit${shortcut.key}`) return true;
+  return stroke.key.toLowerCase() === shortcut.key;
+}
+
+// For display, e.g. "⇧⌘K" on Apple platforms and "Ctrl+Shift+K" elsewhere
+export function formatShortcut(shortcut: Shortcut, isApplePlatform: boolean): string {
+  const keyLabel = KEY_LABELS[shortcut.key] ?? (shortcut.key.length === 1 ? shortcut.key.toUpperCase() : shortcut.key.charAt(0).toUpperCase() + shortcut.key.slice(1));
+  if (isApplePlatform) {
+    return `${shortcut.ctrl ? '⌃' : ''}${shortcut.alt ? '⌥' : ''}${shortcut.shift ? '⇧' : ''}${shortcut.meta ? '⌘' : ''}${keyLabel}`;
+  }
+  return [shortcut.ctrl && 'Ctrl', shortcut.alt && 'Alt', shortcut.shift && 'Shift', shortcut.meta && 'Win', keyLabel].filter(Boolean).join('+');
+}
+
+// The aria-keyshortcuts syntax, e.g. "Control+Shift+K"
+export function formatAriaShortcut(shortcut: Shortcut): string {
+  const key = shortcut.key === ' ' ? 'Space' : (shortcut.key.length === 1 ? shortcut.key.toUpperCase() : shortcut.key.charAt(0).toUpperCase() + shortcut.key.slice(1));
+  return [shortcut.ctrl && 'Control', shortcut.alt && 'Alt', shortcut.shift && 'Shift', shortcut.meta && 'Meta', key].filter(Boolean).join('+');
+}
+
+interface MnemonicCandidate {
+  id: string;
+  label: string;
+  mnemonic?: string;
+}
+
+// One-key mnemonics for a ring: explicit ones first, then the first letter or digit of each remaining label that
+// isn't taken yet. Items without a free character get none.
+export function assignMnemonics(items: MnemonicCandidate[]): Map<string, string> {
+  const assigned = new Map<string, string>();
+  const taken = new Set<string>();
+  items.forEach(item => {
+    const key = item.mnemonic?.toLowerCase();
+    if (key && key.length === 1 && !taken.has(key)) {
+      assigned.set(item.id, key);
+      taken.add(key);
+    }
+  });
+  items.forEach(item => {
+    if (assigned.has(item.id) || item.mnemonic) return;
+    const key = Array.from(item.label.toLowerCase()).find(char => /[\p{L}\p{N}]/u.test(char) && !taken.has(char));
+    if (key) {
+      assigned.set(item.id, key);
+      taken.add(key);
+    }
+  });
+  return assigned;
+}
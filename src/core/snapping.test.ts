@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyDockedEdges, applyMagnet, clampToBounds, projectInertia, resolveSnapTarget } from './snapping';
+
+const BOUNDS = { left: 0, top: 0, width: 800, height: 600 };
+const SIZE = 50;
+
+describe('clampToBounds', () => {
+  it('keeps the whole element inside the bounds', () => {
+    expect(clampToBounds({ x: -10, y: 700 }, SIZE, BOUNDS)).toEqual({ x: 0, y: 550 });
+    expect(clampToBounds({ x: 300, y: 200 }, SIZE, BOUNDS)).toEqual({ x: 300, y: 200 });
+  });
+
+  it('respects bounds that are offset from the viewport', () => {
+    expect(clampToBounds({ x: 0, y: 0 }, SIZE, { left: 100, top: 50, width: 200, height: 200 })).toEqual({ x: 100, y: 50 });
+  });
+});
+
+describe('projectInertia', () => {
+  it('travels the velocity divided by the friction', () => {
+    expect(projectInertia({ x: 100, y: 100 }, { x: 600, y: -300 }, 6)).toEqual({ x: 200, y: 50 });
+  });
+});
+
+describe('applyMagnet', () => {
+  it('pulls harder the closer the position is to a snap point', () => {
+    const point = { x: 100, y: 100 };
+    expect(applyMagnet({ x: 140, y: 100 }, [point], 48).x).toBeCloseTo(140 - 40 * (1 - 40 / 48));
+    expect(applyMagnet({ x: 110, y: 100 }, [point], 48).x).toBeCloseTo(110 - 10 * (1 - 10 / 48));
+  });
+
+  it('leaves positions beyond the threshold alone', () => {
+    expect(applyMagnet({ x: 200, y: 100 }, [{ x: 100, y: 100 }], 48)).toEqual({ x: 200, y: 100 });
+  });
+});
+
+describe('resolveSnapTarget', () => {
+  it('lands on a nearby snap point before considering edges', () => {
+    const result = resolveSnapTarget({ x: 20, y: 110 }, SIZE, BOUNDS, { edges: true, points: [{ x: 40, y: 100 }] });
+    expect(result).toEqual({ position: { x: 40, y: 100 }, docked: { x: null, y: null } });
+  });
+
+  it('settles in the nearest corner', () => {
+    const result = resolveSnapTarget({ x: 500, y: 100 }, SIZE, BOUNDS, { corners: true });
+    expect(result).toEqual({ position: { x: 734, y: 16 }, docked: { x: 'end', y: 'start' } });
+  });
+
+  it('docks to both edges near a corner, and to none far from them', () => {
+    expect(resolveSnapTarget({ x: 10, y: 530 }, SIZE, BOUNDS, { edges: true })?.docked).toEqual({ x: 'start', y: 'end' });
+    expect(resolveSnapTarget({ x: 300, y: 200 }, SIZE, BOUNDS, { edges: true })).toBeNull();
+  });
+});
+
+describe('applyDockedEdges', () => {
+  it('keeps a docked widget on its edge when the bounds are resized', () => {
+    const resized = { left: 0, top: 0, width: 1000, height: 400 };
+    expect(applyDockedEdges({ x: 734, y: 200 }, { x: 'end', y: null }, SIZE, resized, 16)).toEqual({ x: 934, y: 200 });
+  });
+});
@@ -0,0 +1,116 @@
+import type { Point } from '../utils/pointer';
+import type { LayoutBounds } from './layout/safeArcs';
+
+export interface SnapOptions {
+  edges?: boolean; // Dock to an edge (or two, near a corner) when released within `threshold` of it
+  corners?: boolean; // Always settle in the nearest corner
+  points?: Point[]; // App-defined resting places; they attract the widget while it's dragged nearby
+  threshold?: number; // px
+  edgeMargin?: number; // Gap kept between a docked widget and the edge it is docked to
+}
+
+export interface InertiaOptions {
+  friction?: number; // Per-second decay rate of the release velocity; higher stops sooner
+}
+
+// Which edges of the bounds a position is docked to, so docking survives a resize
+export interface DockedEdges {
+  x: 'start' | 'end' | null;
+  y: 'start' | 'end' | null;
+}
+
+export const DEFAULT_SNAP_THRESHOLD = 48;
+export const DEFAULT_EDGE_MARGIN = 16;
+export const DEFAULT_INERTIA_FRICTION = 6;
+export const NOT_DOCKED: DockedEdges = { x: null, y: null };
+
+export function clampToBounds(position: Point, elementSize: number, bounds: LayoutBounds): Point {
+  const left = bounds.left ?? 0;
+  const top = bounds.top ?? 0;
+  return {
+    x: Math.max(left, Math.min(position.x, left + bounds.width - elementSize)),
+    y: Math.max(top, Math.min(position.y, top + bounds.height - elementSize)),
+  };
+}
+
+// Where a glide with exponentially decaying velocity (px/s) ends up
+export function projectInertia(position: Point, velocity: Point, friction: number): Point {
+  return { x: position.x + velocity.x / friction, y: position.y + velocity.y / friction };
+}
+
+const getDockedCoordinate = (edge: DockedEdges['x'], start: number, available: number, margin: number, fallback: number) =>
+  edge === 'start' ? start + margin : (edge === 'end' ? start + available - margin : fallback);
+
+// Re-applies docking after the bounds changed size, keeping e.g. a right-docked widget on the right edge
+export function applyDockedEdges(position: Point, docked: DockedEdges, elementSize: number, bounds: LayoutBounds, edgeMargin: number): Point {
+  return {
+    x: getDockedCoordinate(docked.x, bounds.left ?? 0, bounds.width - elementSize, edgeMargin, position.x),
+    y: getDockedCoordinate(docked.y, bounds.top ?? 0, bounds.height - elementSize, edgeMargin, position.y),
+  };
+}
+
+// Pulls a dragged top-left position toward the nearest snap point within the threshold, harder the closer it gets
+export function applyMagnet(position: Point, points: Point[], threshold: number): Point {
+  let nearest: Point | null = null;
+  let nearestDistance = threshold;
+  for (const point of points) {
+    const distance = Math.hypot(position.x - point.x, position.y - point.y);
+    if (distance < nearestDistance) {
+      nearest = point;
+      nearestDistance = distance;
+    }
+  }
+  if (!nearest) return position;
+  const strength = 1 - nearestDistance / threshold;
+  return {
+    x: position.x + (nearest.x - position.x) * strength,
+    y: position.y + (nearest.y - position.y) * strength,
+  };
+}
+
+// Resolves where a released widget comes to rest. Snap points win over corners, which win over edges.
+// Positions are top-left corners, like everything else useDraggable works with.
+export function resolveSnapTarget(
+  position: Point,
+  elementSize: number,
+  bounds: LayoutBounds,
+  options: SnapOptions,
+): { position: Point; docked: DockedEdges } | null {
+  const threshold = options.threshold ?? DEFAULT_SNAP_THRESHOLD;
+  const margin = options.edgeMargin ?? DEFAULT_EDGE_MARGIN;
+  const left = bounds.left ?? 0;
+  const top = bounds.top ?? 0;
+
+  let nearestPoint: Point | null = null;
+  let nearestDistance = threshold;
+  for (const point of options.points ?? []) {
+    const distance = Math.hypot(position.x - point.x, position.y - point.y);
+    if (distance < nearestDistance) {
+      nearestPoint = point;
+      nearestDistance = distance;
+    }
+  }
+  if (nearestPoint) return { position: nearestPoint, docked: NOT_DOCKED };
+
+  if (options.corners) {
+    const docked: DockedEdges = {
+      x: position.x + elementSize / 2 < left + bounds.width / 2 ? 'start' : 'end',
+      y: position.y + elementSize / 2 < top + bounds.height / 2 ? 'start' : 'end',
+    };
+    return { position: applyDockedEdges(position, docked, elementSize, bounds, margin), docked };
+  }
+
+  if (options.edges) {
+    const getEdge = (value: number, min: number, max: number): DockedEdges['x'] =>
+      value - min - margin < threshold ? 'start' : (max - margin - value < threshold ? 'end' : null);
+    const docked: DockedEdges = {
+      x: getEdge(position.x, left, left + bounds.width - elementSize),
+      y: getEdge(position.y, top, top + bounds.height - elementSize),
+    };
+    if (docked.x || docked.y) {
+      return { position: applyDockedEdges(position, docked, elementSize, bounds, margin), docked };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,6 @@
+import type React from 'react';
+import { icons } from 'lucide-react';
+import { createIconRegistry } from './registries';
+
+// Every lucide-react icon, by name. A module of its own since importing it puts the whole icon set in the bundle.
+export const lucideIconRegistry = createIconRegistry(icons as Record<string, React.ElementType>);
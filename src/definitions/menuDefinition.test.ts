@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { MENU_DEFINITION_SCHEMA, validateMenuDefinition } from './menuDefinition';
+import shippedSchema from './menu-definition.schema.json';
+import contextMenu from '../menus/contextMenu.json';
+
+describe('MENU_DEFINITION_SCHEMA', () => {
+  it('matches the schema file that menu documents point $schema at', () => {
+    expect(shippedSchema).toEqual(JSON.parse(JSON.stringify(MENU_DEFINITION_SCHEMA)));
+  });
+
+  it('accepts the bundled context menu', () => {
+    expect(validateMenuDefinition(contextMenu).valid).toBe(true);
+  });
+});
@@ -0,0 +1,267 @@
+import type { RadialMenuThemeOverrides } from '../theme/theme';
+import { parseShortcut } from '../core/shortcuts';
+import type { ConfirmMode, ConfirmOptions } from '../core/confirmation';
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export const MENU_DEFINITION_VERSION = 1;
+
+// A menu as data: icons are registry names and actions are command ids, so it can be stored or served as JSON
+export interface MenuItemDefinition {
+  id: string;
+  label: string;
+  icon?: string; // Name in the icon registry, e.g. "share-2" or "Share2" for lucide's Share2
+  description?: string;
+  command?: string; // Id in the command registry; run when the item is chosen, or toggled for checkbox/radio items
+  args?: JsonValue; // Passed to the command
+  children?: MenuItemDefinition[];
+  disabled?: boolean;
+  disabledReason?: string;
+  type?: 'checkbox' | 'radio';
+  group?: string;
+  closeOnSelect?: boolean;
+  badge?: number | string;
+  shortcut?: string; // e.g. "Mod+Shift+S"
+  mnemonic?: string; // A single character
+  confirm?: ConfirmMode | ConfirmOptions; // Asked before the command runs
+  theme?: RadialMenuThemeOverrides;
+}
+
+export interface MenuDefinition {
+  $schema?: string;
+  version: typeof MENU_DEFINITION_VERSION;
+  items: MenuItemDefinition[];
+}
+
+export interface MenuDefinitionIssue {
+  path: string; // Where in the document, e.g. "items[2].children[0].icon"
+  message: string;
+}
+
+export type MenuDefinitionValidation =
+  | { valid: true; definition: MenuDefinition }
+  | { valid: false; issues: MenuDefinitionIssue[] };
+
+export class MenuDefinitionError extends Error {
+  readonly issues: MenuDefinitionIssue[];
+
+  constructor(issues: MenuDefinitionIssue[]) {
+    super(`Invalid menu definition:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'MenuDefinitionError';
+    this.issues = issues;
+  }
+}
+
+const THEME_SECTIONS = ['colors', 'shadows', 'radii', 'fonts', 'transitions'] as const;
+const CONFIRM_MODES = ['hold', 'tap-again', 'sub-ring'] as const;
+
+// The JSON Schema (draft 2020-12) for menu documents, also shipped as menu-definition.schema.json next to this
+// file for editors to point `$schema` at. validateMenuDefinition checks the same rules, plus the ones a schema
+// can't express: unique ids and, when registries are given, known icons and commands.
+export const MENU_DEFINITION_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Radial menu definition',
+  type: 'object',
+  required: ['version', 'items'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    version: { const: MENU_DEFINITION_VERSION },
+    items: { type: 'array', items: { $ref: '#/$defs/item' } },
+  },
+  $defs: {
+    item: {
+      type: 'object',
+      required: ['id', 'label'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        label: { type: 'string', minLength: 1 },
+        icon: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        command: { type: 'string', minLength: 1 },
+        args: {},
+        children: { type: 'array', minItems: 1, items: { $ref: '#/$defs/item' } },
+        disabled: { type: 'boolean' },
+        disabledReason: { type: 'string' },
+        type: { enum: ['checkbox', 'radio'] },
+        group: { type: 'string' },
+        closeOnSelect: { type: 'boolean' },
+        badge: { type: ['number', 'string'] },
+        shortcut: { type: 'string', pattern: '\\S' },
+        mnemonic: { type: 'string', minLength: 1, maxLength: 1 },
+        confirm: {
+          oneOf: [
+            { enum: CONFIRM_MODES },
+            {
+              type: 'object',
+              required: ['mode'],
+              additionalProperties: false,
+              properties: {
+                mode: { enum: CONFIRM_MODES },
+                message: { type: 'string' },
+                holdDuration: { type: 'number', minimum: 0 },
+                timeout: { type: 'number', minimum: 0 },
+                confirmLabel: { type: 'string', minLength: 1 },
+                cancelLabel: { type: 'string', minLength: 1 },
+              },
+            },
+          ],
+        },
+        theme: {
+          type: 'object',
+          additionalProperties: false,
+          properties: Object.fromEntries(THEME_SECTIONS.map(section => [section, {
+            type: 'object',
+            additionalProperties: { type: ['string', 'number'] },
+          }])),
+        },
+      },
+    },
+  },
+} as const;
+
+const ITEM_KEYS = new Set<string>(Object.keys(MENU_DEFINITION_SCHEMA.$defs.item.properties));
+const DOCUMENT_KEYS = new Set<string>(Object.keys(MENU_DEFINITION_SCHEMA.properties));
+const CONFIRM_KEYS = new Set<string>(Object.keys(MENU_DEFINITION_SCHEMA.$defs.item.properties.confirm.oneOf[1].properties));
+
+export interface MenuDefinitionRegistries {
+  hasIcon?: (name: string) => boolean;
+  hasCommand?: (id: string) => boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : (Array.isArray(value) ? 'an array' : `a ${typeof value}`);
+
+// Checks an untrusted document (e.g. parsed from a server response) and collects every problem instead of
+// stopping at the first, so an admin UI can show them all at once
+export function validateMenuDefinition(value: unknown, registries: MenuDefinitionRegistries = {}): MenuDefinitionValidation {
+  const issues: MenuDefinitionIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+  const seenIds = new Map<string, string>();
+
+  const checkOptional = (item: Record<string, unknown>, path: string, key: string, type: 'string' | 'boolean') => {
+    if (item[key] !== undefined && typeof item[key] !== type) report(`${path}.${key}`, `expected a ${type}, got ${describe(item[key])}`);
+  };
+
+  const isConfirmMode = (value: unknown) => (CONFIRM_MODES as readonly unknown[]).includes(value);
+  const checkConfirm = (confirm: unknown, path: string) => {
+    if (typeof confirm === 'string' || !isObject(confirm)) {
+      if (!isConfirmMode(confirm)) report(path, `expected one of ${CONFIRM_MODES.join(', ')} or an object, got ${JSON.stringify(confirm)}`);
+      return;
+    }
+    Object.keys(confirm).filter(key => !CONFIRM_KEYS.has(key)).forEach(key => report(`${path}.${key}`, 'unknown property'));
+    if (!isConfirmMode(confirm.mode)) {
+      report(`${path}.mode`, confirm.mode === undefined ? 'is required' : `expected one of ${CONFIRM_MODES.join(', ')}`);
+    }
+    checkOptional(confirm, path, 'message', 'string');
+    (['confirmLabel', 'cancelLabel'] as const).forEach(key => {
+      if (confirm[key] !== undefined && (typeof confirm[key] !== 'string' || confirm[key] === '')) report(`${path}.${key}`, 'expected a non-empty string');
+    });
+    (['holdDuration', 'timeout'] as const).forEach(key => {
+      const value = confirm[key];
+      if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) report(`${path}.${key}`, 'expected a number of milliseconds');
+    });
+  };
+
+  const checkItem = (item: unknown, path: string) => {
+    if (!isObject(item)) {
+      report(path, `expected an object, got ${describe(item)}`);
+      return;
+    }
+    Object.keys(item).filter(key => !ITEM_KEYS.has(key)).forEach(key => report(`${path}.${key}`, 'unknown property'));
+
+    (['id', 'label'] as const).forEach(key => {
+      if (typeof item[key] !== 'string' || item[key] === '') {
+        report(`${path}.${key}`, item[key] === undefined ? 'is required' : 'expected a non-empty string');
+      }
+    });
+    if (typeof item.id === 'string' && item.id !== '') {
+      const firstPath = seenIds.get(item.id);
+      if (firstPath) report(`${path}.id`, `duplicate id "${item.id}", already used at ${firstPath}`);
+      else seenIds.set(item.id, path);
+    }
+
+    ['description', 'disabledReason', 'group'].forEach(key => checkOptional(item, path, key, 'string'));
+    ['disabled', 'closeOnSelect'].forEach(key => checkOptional(item, path, key, 'boolean'));
+
+    if (item.icon !== undefined) {
+      if (typeof item.icon !== 'string' || item.icon === '') report(`${path}.icon`, 'expected a non-empty string');
+      else if (registries.hasIcon && !registries.hasIcon(item.icon)) report(`${path}.icon`, `unknown icon "${item.icon}"`);
+    }
+    if (item.command !== undefined) {
+      if (typeof item.command !== 'string' || item.command === '') report(`${path}.command`, 'expected a non-empty string');
+      else if (registries.hasCommand && !registries.hasCommand(item.command)) report(`${path}.command`, `unknown command "${item.command}"`);
+    }
+    if (item.type !== undefined && item.type !== 'checkbox' && item.type !== 'radio') {
+      report(`${path}.type`, `expected "checkbox" or "radio", got ${JSON.stringify(item.type)}`);
+    }
+    if (item.shortcut !== undefined) {
+      if (typeof item.shortcut !== 'string') report(`${path}.shortcut`, `expected a string, got ${describe(item.shortcut)}`);
+      else if (!parseShortcut(item.shortcut, false)) report(`${path}.shortcut`, `"${item.shortcut}" is not one key with optional modifiers`);
+    }
+    if (item.mnemonic !== undefined && (typeof item.mnemonic !== 'string' || Array.from(item.mnemonic).length !== 1)) {
+      report(`${path}.mnemonic`, 'expected a single character');
+    }
+    if (item.badge !== undefined && typeof item.badge !== 'number' && typeof item.badge !== 'string') {
+      report(`${path}.badge`, `expected a number or a string, got ${describe(item.badge)}`);
+    }
+    if (item.confirm !== undefined) checkConfirm(item.confirm, `${path}.confirm`);
+    if (item.theme !== undefined) {
+      if (!isObject(item.theme)) {
+        report(`${path}.theme`, `expected an object, got ${describe(item.theme)}`);
+      } else {
+        Object.entries(item.theme).forEach(([section, values]) => {
+          if (!(THEME_SECTIONS as readonly string[]).includes(section)) {
+            report(`${path}.theme.${section}`, `unknown theme section, expected one of ${THEME_SECTIONS.join(', ')}`);
+          } else if (!isObject(values) || Object.values(values).some(v => typeof v !== 'string' && typeof v !== 'number')) {
+            report(`${path}.theme.${section}`, 'expected an object of string or number values');
+          }
+        });
+      }
+    }
+
+    if (item.children !== undefined) {
+      if (!Array.isArray(item.children) || item.children.length === 0) {
+        report(`${path}.children`, 'expected a non-empty array');
+      } else {
+        if (item.command !== undefined) report(`${path}.command`, 'items with children open a submenu and never run a command');
+        item.children.forEach((child, index) => checkItem(child, `${path}.children[${index}]`));
+      }
+    }
+  };
+
+  if (!isObject(value)) {
+    report('(root)', `expected an object, got ${describe(value)}`);
+  } else {
+    Object.keys(value).filter(key => !DOCUMENT_KEYS.has(key)).forEach(key => report(key, 'unknown property'));
+    if (value.version !== MENU_DEFINITION_VERSION) {
+      report('version', value.version === undefined ? 'is required' : `unsupported version ${JSON.stringify(value.version)}, expected ${MENU_DEFINITION_VERSION}`);
+    }
+    if (!Array.isArray(value.items)) {
+      report('items', value.items === undefined ? 'is required' : `expected an array, got ${describe(value.items)}`);
+    } else {
+      value.items.forEach((item, index) => checkItem(item, `items[${index}]`));
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, definition: value as unknown as MenuDefinition };
+}
+
+// Like validateMenuDefinition, but throws a MenuDefinitionError listing every issue. Accepts JSON text too.
+export function parseMenuDefinition(source: unknown, registries?: MenuDefinitionRegistries): MenuDefinition {
+  let value = source;
+  if (typeof source === 'string') {
+    try {
+      value = JSON.parse(source);
+    } catch (error) {
+      throw new MenuDefinitionError([{ path: '(root)', message: `not valid JSON: ${(error as Error).message}` }]);
+    }
+  }
+  const result = validateMenuDefinition(value, registries);
+  if (!result.valid) throw new MenuDefinitionError(result.issues);
+  return result.definition;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Circle, Copy, Star } from 'lucide-react';
+import { validateMenuDefinition } from './menuDefinition';
+import { createCommandRegistry, createIconRegistry, getRegistryChecks, resolveMenuDefinition } from './registries';
+
+const icons = createIconRegistry({ Copy });
+const commands = createCommandRegistry({ log: () => {} });
+const definition = {
+  version: 1,
+  items: [
+    { id: 'copy', icon: 'copy', label: 'Copy', command: 'log' },
+    { id: 'unknown', icon: 'not-an-icon', label: 'Unknown', command: 'log' },
+  ],
+};
+
+describe('getRegistryChecks', () => {
+  it('reports an unknown icon when there is no fallback', () => {
+    const result = validateMenuDefinition(definition, getRegistryChecks({ icons, commands }));
+    expect(result.valid).toBe(false);
+  });
+
+  it('lets an unknown icon through when there is a fallback', () => {
+    const result = validateMenuDefinition(definition, getRegistryChecks({ icons, commands, fallbackIcon: Star }));
+    expect(result.valid).toBe(true);
+  });
+});
+
+describe('resolveMenuDefinition', () => {
+  it('resolves an unknown icon to the fallback', () => {
+    const options = { icons, commands, fallbackIcon: Star };
+    const result = validateMenuDefinition(definition, getRegistryChecks(options));
+    if (!result.valid) throw new Error('expected a valid definition');
+    const [copy, unknown] = resolveMenuDefinition(result.definition, options);
+    expect(copy.icon).toBe(Copy);
+    expect(unknown.icon).toBe(Star);
+  });
+
+  it('uses a circle for an item without an icon', () => {
+    const [item] = resolveMenuDefinition({ version: 1, items: [{ id: 'plain', label: 'Plain' }] }, { icons, commands });
+    expect(item.icon).toBe(Circle);
+  });
+
+  it('passes the new state of a toggle to its command', () => {
+    const toggle = vi.fn();
+    const [item] = resolveMenuDefinition(
+      { version: 1, items: [{ id: 'mute', label: 'Mute', type: 'checkbox', command: 'toggle' }] },
+      { icons, commands: createCommandRegistry({ toggle }) },
+    );
+    item.action?.(undefined, true);
+    expect(toggle).toHaveBeenCalledWith(undefined, { itemId: 'mute', context: undefined, checked: true });
+  });
+});
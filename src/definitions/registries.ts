@@ -0,0 +1,94 @@
+import type React from 'react';
+import { Circle } from 'lucide-react';
+import type { RadialMenuContext, RadialMenuItem } from '../components/RadialMenu';
+import type { JsonValue, MenuDefinition, MenuDefinitionRegistries, MenuItemDefinition } from './menuDefinition';
+
+export interface CommandInvocation {
+  itemId: string;
+  context?: RadialMenuContext; // Set when a context-mode menu was opened on a target
+  checked?: boolean; // The new state, for checkbox and radio items
+}
+
+// Like an item action, a command may return a promise to show the pending and error states
+export type MenuCommand = (args: JsonValue | undefined, invocation: CommandInvocation) => void | Promise<unknown>;
+
+export interface IconRegistry {
+  get: (name: string) => React.ElementType | undefined;
+  has: (name: string) => boolean;
+}
+
+export interface CommandRegistry {
+  get: (id: string) => MenuCommand | undefined;
+  has: (id: string) => boolean;
+  register: (id: string, command: MenuCommand) => () => void; // Returns a function that unregisters it
+}
+
+// "share-2", "share_2" and "Share2" all name lucide's Share2
+const toPascalCase = (name: string) =>
+  name.replace(/(^|[-_\s]+)([a-z0-9])/gi, (_, __, char: string) => char.toUpperCase());
+
+// Icons by name, in PascalCase or kebab-case. Only the icons given end up in the bundle; lucideIconRegistry, in
+// lucideIcons.ts, has all of lucide-react's for menus whose icons aren't known up front.
+export function createIconRegistry(icons: Record<string, React.ElementType>): IconRegistry {
+  const lookup = (name: string): React.ElementType | undefined => icons[name] ?? icons[toPascalCase(name)];
+  return { get: lookup, has: name => lookup(name) !== undefined };
+}
+
+export function createCommandRegistry(commands: Record<string, MenuCommand> = {}): CommandRegistry {
+  const registered = new Map(Object.entries(commands));
+  return {
+    get: id => registered.get(id),
+    has: id => registered.has(id),
+    register: (id, command) => {
+      registered.set(id, command);
+      return () => {
+        if (registered.get(id) === command) registered.delete(id);
+      };
+    },
+  };
+}
+
+export interface ResolveOptions {
+  icons: IconRegistry;
+  commands: CommandRegistry;
+  fallbackIcon?: React.ElementType; // For icons missing from the registry, or items without one
+}
+
+// For validateMenuDefinition, so unknown icons and commands are reported along with the other issues. With a
+// fallback icon, an unknown icon isn't an issue: the item shows the fallback instead.
+export const getRegistryChecks = ({ icons, commands, fallbackIcon }: ResolveOptions): MenuDefinitionRegistries => ({
+  hasIcon: fallbackIcon ? undefined : icons.has,
+  hasCommand: commands.has,
+});
+
+// Turns a validated definition into items for <RadialMenu>. Commands are looked up when they run, so ones
+// registered after the menu was built (e.g. by a lazily loaded feature) still work.
+export function resolveMenuDefinition(definition: MenuDefinition, options: ResolveOptions): RadialMenuItem[] {
+  const { icons, commands, fallbackIcon = Circle } = options;
+
+  const resolveItem = (item: MenuItemDefinition): RadialMenuItem => ({
+    id: item.id,
+    label: item.label,
+    icon: (item.icon && icons.get(item.icon)) || fallbackIcon,
+    description: item.description,
+    disabled: item.disabled,
+    disabledReason: item.disabledReason,
+    type: item.type,
+    group: item.group,
+    closeOnSelect: item.closeOnSelect,
+    badge: item.badge,
+    shortcut: item.shortcut,
+    mnemonic: item.mnemonic,
+    confirm: item.confirm,
+    theme: item.theme,
+    children: item.children?.map(resolveItem),
+    action: item.command === undefined ? undefined : (context, checked) => {
+      const command = commands.get(item.command!);
+      // Rejecting shows the problem on the item instead of throwing out of the click handler
+      if (!command) return Promise.reject(new Error(`No command registered for "${item.command}"`));
+      return command(item.args, { itemId: item.id, context, checked });
+    },
+  });
+
+  return definition.items.map(resolveItem);
+}
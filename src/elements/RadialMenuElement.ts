@@ -0,0 +1,427 @@
+import {
+  computeRingLayout, computeSubmenuRadius, createDragController, getMenuRings, hasChildren, menuNavigationReducer, resolveActivation,
+  resolveRestingPosition, INITIAL_NAVIGATION_STATE, LayoutBounds, MenuNavigationAction, MenuTreeNode,
+} from '../core';
+import { easeOutCubic, SETTLE_DURATION } from '../core/dragController';
+import type { Point } from '../utils/pointer';
+import { defaultTheme, themeToCssVariables } from '../theme/theme';
+import styles from '../components/RadialMenu.css?inline';
+
+export interface RadialMenuElementItem extends MenuTreeNode<RadialMenuElementItem> {
+  icon?: string; // Text or emoji shown in the item; the first letter of the label when omitted
+}
+
+export interface RadialMenuSelectDetail {
+  item: RadialMenuElementItem;
+  path: string[]; // Ids of the parents the item was chosen in
+}
+
+const DEFAULT_ORBIT_RADIUS = 100;
+const DEFAULT_ITEM_SIZE = 40;
+const DEFAULT_MAIN_BUTTON_SIZE = 56;
+const DEFAULT_DRAG_THRESHOLD = 5;
+const INACTIVE_PARENT_RING_OPACITY = 0.55;
+const DEFAULT_ARIA_LABEL = 'Radial menu';
+const ITEM_TAG_NAME = 'radial-menu-item';
+// Lucide's "menu" and "x" glyphs, matching the React component's trigger
+const MENU_ICON = '<svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><line x1="4" x2="20" y1="12" y2="12"/><line x1="4" x2="20" y1="6" y2="6"/><line x1="4" x2="20" y1="18" y2="18"/></svg>';
+const CLOSE_ICON = '<svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>';
+
+const getViewport = (): LayoutBounds => ({ left: 0, top: 0, width: window.innerWidth, height: window.innerHeight });
+
+// Reads <radial-menu-item value="copy" label="Copy" icon="📋" description="…" disabled> children, nested for submenus
+function readChildItems(parent: Element): RadialMenuElementItem[] {
+  return Array.from(parent.children)
+    .filter(child => child.localName === ITEM_TAG_NAME)
+    .map((child, index) => {
+      const label = child.getAttribute('label') ?? '';
+      const children = readChildItems(child);
+      return {
+        id: child.getAttribute('value') ?? `${label || 'item'}-${index}`,
+        label,
+        icon: child.getAttribute('icon') ?? undefined,
+        description: child.getAttribute('description') ?? undefined,
+        disabled: child.hasAttribute('disabled'),
+        children: children.length > 0 ? children : undefined,
+      };
+    });
+}
+
+// Lets the module be imported where HTMLElement doesn't exist (Node, SSR); defining the element still needs a DOM
+const BaseElement = typeof HTMLElement !== 'undefined' ? HTMLElement : (class {} as typeof HTMLElement);
+
+// The radial menu as a framework-free custom element, built on the same core as the React component. Items come
+// from the `items` property or from <radial-menu-item> children. Choosing a leaf dispatches a cancelable `select`
+// event; the menu closes unless it is cancelled. `openchange` reports opening and closing.
+export class RadialMenuElement extends BaseElement {
+  static observedAttributes = ['label', 'orbit-radius', 'item-size', 'button-size'];
+
+  private explicitItems: RadialMenuElementItem[] | null = null;
+  private childItems: RadialMenuElementItem[] = [];
+  private navigation = INITIAL_NAVIGATION_STATE;
+  private isOpen = false;
+  private focusedItemId: string | null = null; // The roving tab stop, kept while focus is elsewhere
+  private position: Point | null = null;
+  private settleFrame: number | null = null;
+  private childObserver: MutationObserver | null = null;
+
+  private readonly container: HTMLDivElement;
+  private readonly trigger: HTMLButtonElement;
+  private readonly ringLayer: HTMLDivElement;
+
+  private readonly dragController = createDragController({
+    getThreshold: () => DEFAULT_DRAG_THRESHOLD,
+    getElementSize: () => this.mainButtonSize,
+    getBounds: getViewport,
+  });
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    // Shadow DOM keeps the page's styles out, so the default theme is applied on the host; pages override the
+    // --rm-* properties on the element itself
+    const themeVariables = Object.entries(themeToCssVariables(defaultTheme))
+      .map(([name, value]) => `${name}: ${value};`)
+      .join(' ');
+    style.textContent = `:host { ${themeVariables} }\n${styles}`;
+
+    this.container = document.createElement('div');
+    this.container.className = 'radial-menu';
+    this.container.style.position = 'fixed';
+    this.container.style.zIndex = '1000';
+    this.container.style.touchAction = 'none';
+
+    this.trigger = document.createElement('button');
+    this.trigger.type = 'button';
+    this.trigger.className = 'radial-menu__trigger';
+    this.trigger.setAttribute('aria-haspopup', 'menu');
+    this.trigger.style.position = 'relative';
+    this.trigger.style.zIndex = '1';
+    this.trigger.addEventListener('pointerdown', this.handlePointerDown);
+    this.trigger.addEventListener('keydown', this.handleTriggerKeyDown);
+
+    this.ringLayer = document.createElement('div');
+    this.container.append(this.trigger, this.ringLayer);
+    root.append(style, this.container);
+  }
+
+  get items(): RadialMenuElementItem[] {
+    return this.explicitItems ?? this.childItems;
+  }
+
+  // Setting items takes over from any <radial-menu-item> children; null goes back to them
+  set items(items: RadialMenuElementItem[] | null) {
+    this.explicitItems = items;
+    this.dispatch({ type: 'reset' });
+  }
+
+  get open(): boolean {
+    return this.isOpen;
+  }
+
+  set open(open: boolean) {
+    this.setOpen(open);
+  }
+
+  show() {
+    this.setOpen(true);
+  }
+
+  hide() {
+    this.setOpen(false);
+  }
+
+  toggle() {
+    this.setOpen(!this.isOpen);
+  }
+
+  connectedCallback() {
+    this.childItems = readChildItems(this);
+    this.childObserver = new MutationObserver(() => {
+      this.childItems = readChildItems(this);
+      if (!this.explicitItems) this.render();
+    });
+    this.childObserver.observe(this, { childList: true, subtree: true, attributes: true, characterData: true });
+    document.addEventListener('pointerdown', this.handleDocumentPointerDown, true);
+    window.addEventListener('resize', this.handleResize);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.childObserver?.disconnect();
+    this.childObserver = null;
+    document.removeEventListener('pointerdown', this.handleDocumentPointerDown, true);
+    window.removeEventListener('resize', this.handleResize);
+    this.cancelSettle();
+    this.dragController.cancel();
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private get mainButtonSize() {
+    return Number(this.getAttribute('button-size')) || DEFAULT_MAIN_BUTTON_SIZE;
+  }
+
+  private get itemSize() {
+    return Number(this.getAttribute('item-size')) || DEFAULT_ITEM_SIZE;
+  }
+
+  private get orbitRadius() {
+    return Number(this.getAttribute('orbit-radius')) || DEFAULT_ORBIT_RADIUS;
+  }
+
+  private getPosition(): Point {
+    this.position ??= {
+      x: window.innerWidth / 2 - this.mainButtonSize / 2,
+      y: window.innerHeight / 2 - this.mainButtonSize / 2,
+    };
+    return this.position;
+  }
+
+  private setOpen(open: boolean) {
+    if (open === this.isOpen) return;
+    this.isOpen = open;
+    if (!open) {
+      this.navigation = INITIAL_NAVIGATION_STATE;
+      this.focusedItemId = null;
+    }
+    this.render();
+    if (open) this.ringLayer.querySelector<HTMLElement>('[tabindex="0"]')?.focus();
+    this.dispatchEvent(new CustomEvent('openchange', { detail: { open } }));
+  }
+
+  private dispatch(action: MenuNavigationAction) {
+    this.navigation = menuNavigationReducer(this.navigation, action);
+    this.render();
+  }
+
+  private cancelSettle() {
+    if (this.settleFrame !== null) {
+      cancelAnimationFrame(this.settleFrame);
+      this.settleFrame = null;
+    }
+  }
+
+  private moveTo(position: Point) {
+    this.position = position;
+    this.render();
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (!event.isPrimary || (event.pointerType === 'mouse' && event.button !== 0)) return;
+    if (!this.dragController.start(event.pointerId, { x: event.clientX, y: event.clientY }, this.getPosition(), performance.now())) return;
+    this.cancelSettle();
+    this.trigger.setPointerCapture(event.pointerId);
+    this.trigger.addEventListener('pointermove', this.handlePointerMove);
+    this.trigger.addEventListener('pointerup', this.handlePointerUp);
+    this.trigger.addEventListener('pointercancel', this.handlePointerUp);
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    const move = this.dragController.move(event.pointerId, { x: event.clientX, y: event.clientY }, performance.now());
+    if (!move) return;
+    this.moveTo(move.position);
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    const release = this.dragController.end(event.pointerId, performance.now());
+    if (!release) return;
+    this.trigger.removeEventListener('pointermove', this.handlePointerMove);
+    this.trigger.removeEventListener('pointerup', this.handlePointerUp);
+    this.trigger.removeEventListener('pointercancel', this.handlePointerUp);
+    if (this.trigger.hasPointerCapture(event.pointerId)) this.trigger.releasePointerCapture(event.pointerId);
+
+    if (!release.hasMovedBeyondThreshold) {
+      if (event.type === 'pointerup') this.toggle();
+      return;
+    }
+    this.settle(release.position, release.velocity);
+  };
+
+  // Glides to where the core says a released widget comes to rest
+  private settle(from: Point, velocity: Point) {
+    const { position: target } = resolveRestingPosition(from, velocity, this.mainButtonSize, getViewport(), { inertia: true });
+    const startTime = performance.now();
+    const step = (time: number) => {
+      const progress = Math.min((time - startTime) / SETTLE_DURATION, 1);
+      const eased = easeOutCubic(progress);
+      this.moveTo({ x: from.x + (target.x - from.x) * eased, y: from.y + (target.y - from.y) * eased });
+      this.settleFrame = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+    this.settleFrame = requestAnimationFrame(step);
+  }
+
+  private handleTriggerKeyDown = (event: KeyboardEvent) => {
+    // Handled here rather than on click, which also follows every drag
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.toggle();
+    } else if (event.key === 'Escape' && this.isOpen) {
+      event.preventDefault();
+      this.setOpen(false);
+    } else if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && !this.isOpen) {
+      event.preventDefault();
+      this.setOpen(true);
+    }
+  };
+
+  private handleDocumentPointerDown = (event: PointerEvent) => {
+    if (this.isOpen && !event.composedPath().includes(this)) this.setOpen(false);
+  };
+
+  private handleResize = () => {
+    const { position } = resolveRestingPosition(this.getPosition(), { x: 0, y: 0 }, this.mainButtonSize, getViewport(), {});
+    this.moveTo(position);
+  };
+
+  // Arrow keys move through the ring and wrap at both ends, like useRovingFocus in the React component
+  private handleItemKeyDown(event: KeyboardEvent, ringItems: RadialMenuElementItem[], index: number) {
+    const count = ringItems.length;
+    let nextIndex: number | null = null;
+    if (event.key === 'ArrowRight' || event.key === 'ArrowDown') nextIndex = (index + 1) % count;
+    else if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') nextIndex = (index - 1 + count) % count;
+    else if (event.key === 'Home') nextIndex = 0;
+    else if (event.key === 'End') nextIndex = count - 1;
+
+    if (nextIndex !== null) {
+      event.preventDefault();
+      this.focusItem(ringItems[nextIndex].id);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      if (this.navigation.path.length > 0) {
+        const parentId = this.navigation.path[this.navigation.path.length - 1];
+        this.dispatch({ type: 'back' });
+        this.focusItem(parentId);
+      } else {
+        this.setOpen(false);
+        this.trigger.focus();
+      }
+    }
+  }
+
+  private activate(item: RadialMenuElementItem, isInOuterRing: boolean) {
+    const rings = getMenuRings(this.items, this.navigation);
+    const outcome = resolveActivation(this.items, this.navigation, rings, item, isInOuterRing);
+    if (outcome.type === 'navigate') {
+      this.dispatch({ type: 'setPath', path: outcome.path });
+      this.focusItem(outcome.focusId);
+    } else if (outcome.type === 'select') {
+      const path = isInOuterRing ? this.navigation.path : this.navigation.path.slice(0, -1);
+      const event = new CustomEvent<RadialMenuSelectDetail>('select', { detail: { item, path }, cancelable: true });
+      if (this.dispatchEvent(event)) {
+        this.setOpen(false);
+        this.trigger.focus();
+      }
+    }
+  }
+
+  private moveTabStop(item: HTMLElement) {
+    this.focusedItemId = item.dataset.itemId ?? null;
+    this.ringLayer.querySelectorAll<HTMLElement>('[data-item-id]').forEach(button => {
+      button.tabIndex = button === item ? 0 : -1;
+    });
+  }
+
+  private focusItem(id: string | undefined) {
+    if (id === undefined) return;
+    this.ringLayer.querySelector<HTMLElement>(`[data-item-id="${CSS.escape(id)}"]`)?.focus();
+  }
+
+  private render() {
+    if (!this.isConnected) return;
+    const position = this.getPosition();
+    const { mainButtonSize, itemSize, orbitRadius } = this;
+    const triggerLabel = this.getAttribute('label') ?? DEFAULT_ARIA_LABEL;
+
+    Object.assign(this.container.style, {
+      left: `${position.x}px`,
+      top: `${position.y}px`,
+      width: `${mainButtonSize}px`,
+      height: `${mainButtonSize}px`,
+    });
+    Object.assign(this.trigger.style, { width: `${mainButtonSize}px`, height: `${mainButtonSize}px` });
+    this.trigger.setAttribute('aria-expanded', String(this.isOpen));
+    this.trigger.setAttribute('aria-label', triggerLabel);
+    this.trigger.innerHTML = this.isOpen ? CLOSE_ICON : MENU_ICON;
+
+    // Rings are rebuilt on every change; focus is restored by id afterwards
+    const focusedId = (this.shadowRoot?.activeElement as HTMLElement | null)?.dataset.itemId;
+    this.ringLayer.replaceChildren();
+    if (!this.isOpen) return;
+
+    const rings = getMenuRings(this.items, this.navigation);
+    const bounds = getViewport();
+    // One item is tabbable: the last focused one while it is shown, otherwise the first of the active ring
+    const shownItems = rings.activeParent ? [...rings.innerRingItems, ...rings.outerRingItems] : rings.innerRingItems;
+    const activeRingItems = rings.activeParent ? rings.outerRingItems : rings.innerRingItems;
+    const tabStopId = shownItems.some(item => item.id === this.focusedItemId) ? this.focusedItemId : activeRingItems[0]?.id;
+    const layoutRing = (ringItems: RadialMenuElementItem[], radius: number, isInOuterRing: boolean, label: string) => {
+      const ring = document.createElement('div');
+      ring.className = 'radial-menu__ring';
+      ring.setAttribute('role', 'menu');
+      ring.setAttribute('aria-label', label);
+      const positions = computeRingLayout({ topLeft: position, mainButtonSize, numItems: ringItems.length, orbitRadius: radius, itemSize, bounds });
+      const isRingReceded = !isInOuterRing && rings.activeParent !== null;
+      ringItems.forEach((item, index) => {
+        const itemPosition = positions[index];
+        if (!itemPosition) return;
+        const isOpenedParent = rings.activeParent?.id === item.id && !isInOuterRing;
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.dataset.itemId = item.id;
+        button.setAttribute('role', 'menuitem');
+        button.setAttribute('aria-label', item.label);
+        button.tabIndex = item.id === tabStopId ? 0 : -1;
+        button.title = item.description ?? item.label;
+        if (item.disabled) button.setAttribute('aria-disabled', 'true');
+        if (hasChildren(item)) {
+          button.setAttribute('aria-haspopup', 'menu');
+          button.setAttribute('aria-expanded', String(isOpenedParent));
+        }
+        button.className = [
+          'radial-menu__item',
+          hasChildren(item) && 'radial-menu__item--parent',
+          isOpenedParent && 'radial-menu__item--opened',
+          item.disabled && 'radial-menu__item--disabled',
+        ].filter(Boolean).join(' ');
+        Object.assign(button.style, {
+          position: 'absolute',
+          width: `${itemSize}px`,
+          height: `${itemSize}px`,
+          left: `${mainButtonSize / 2 + itemPosition.x - itemSize / 2}px`,
+          top: `${mainButtonSize / 2 + itemPosition.y - itemSize / 2}px`,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: '0',
+          border: 'none',
+          font: 'inherit',
+          opacity: isRingReceded && !isOpenedParent ? String(INACTIVE_PARENT_RING_OPACITY) : '1',
+        });
+        button.textContent = item.icon ?? item.label.charAt(0).toUpperCase();
+        button.addEventListener('click', () => this.activate(item, isInOuterRing));
+        button.addEventListener('focus', () => this.moveTabStop(button));
+        button.addEventListener('keydown', event => this.handleItemKeyDown(event, ringItems, index));
+        ring.append(button);
+      });
+      this.ringLayer.append(ring);
+      return positions;
+    };
+
+    const innerPositions = layoutRing(rings.innerRingItems, orbitRadius, false, triggerLabel);
+    if (rings.activeParent) {
+      const submenuRadius = computeSubmenuRadius(innerPositions, orbitRadius, itemSize);
+      layoutRing(rings.outerRingItems, submenuRadius, true, rings.activeParent.label);
+    }
+    this.focusItem(focusedId);
+  }
+}
+
+// Registers the element (and is a no-op when the tag is already taken, e.g. by a second copy of the bundle)
+export function defineRadialMenuElement(tagName = 'radial-menu') {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  customElements.define(tagName, RadialMenuElement);
+}
@@ -0,0 +1,7 @@
+// Entry point of the Web Component build: importing it registers <radial-menu>
+import { defineRadialMenuElement } from './RadialMenuElement';
+
+export { RadialMenuElement, defineRadialMenuElement } from './RadialMenuElement';
+export type { RadialMenuElementItem, RadialMenuSelectDetail } from './RadialMenuElement';
+
+defineRadialMenuElement();
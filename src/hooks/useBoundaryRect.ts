@@ -0,0 +1,46 @@
+import { useState, useEffect, RefObject } from 'react';
+import type { LayoutBounds } from '../core/layout/safeArcs';
+
+const areBoundsEqual = (a: LayoutBounds | null, b: LayoutBounds | null) =>
+  a === b || (!!a && !!b && a.left === b.left && a.top === b.top && a.width === b.width && a.height === b.height);
+
+// Viewport rect of `boundary`, kept current while the element resizes or anything around it scrolls or resizes.
+// Null without a boundary (or before it is mounted), meaning the window is the bounds.
+export function useBoundaryRect(boundary: RefObject<Element> | undefined): LayoutBounds | null {
+  const [rect, setRect] = useState<LayoutBounds | null>(null);
+
+  useEffect(() => {
+    const element = boundary?.current;
+    if (!element) {
+      setRect(null);
+      return;
+    }
+
+    let frame: number | null = null;
+    const measure = () => {
+      frame = null;
+      const { left, top, width, height } = element.getBoundingClientRect();
+      const next = { left, top, width, height };
+      setRect(prev => (areBoundsEqual(prev, next) ? prev : next));
+    };
+    const scheduleMeasure = () => {
+      if (frame === null) frame = window.requestAnimationFrame(measure);
+    };
+
+    const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleMeasure) : null;
+    resizeObserver?.observe(element);
+    window.addEventListener('resize', scheduleMeasure);
+    // Capture catches scrolling of any ancestor, which moves the element without resizing it
+    window.addEventListener('scroll', scheduleMeasure, { capture: true, passive: true });
+    measure();
+
+    return () => {
+      if (frame !== null) window.cancelAnimationFrame(frame);
+      resizeObserver?.disconnect();
+      window.removeEventListener('resize', scheduleMeasure);
+      window.removeEventListener('scroll', scheduleMeasure, { capture: true });
+    };
+  }, [boundary]);
+
+  return rect;
+}
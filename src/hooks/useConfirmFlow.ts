@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Check, X } from 'lucide-react';
+import type { RadialMenuItem } from '../components/RadialMenu';
+import { addConfirmRings, getConfirmMessage, getConfirmStep, resolveConfirmOptions } from '../core/confirmation';
+import { useItemConfirmation } from './useItemConfirmation';
+
+const CONFIRM_ANSWER_ID_SUFFIX = ':confirm';
+const CANCEL_ANSWER_ID_SUFFIX = ':cancel';
+
+// The answer of a 'sub-ring' confirmation that focus lands on when its ring opens
+export const getCancelAnswerId = (itemId: string) => `${itemId}${CANCEL_ANSWER_ID_SUFFIX}`;
+
+// What an item shows while its confirmation is in progress
+export type ItemConfirmation =
+  | { state: 'armed'; message: string; isHint: boolean }
+  | { state: 'held'; duration: number };
+
+interface ConfirmFlowOptions {
+  enabled: boolean; // Off while editing, when nothing runs
+  isPending: (id: string) => boolean; // An item whose action is still running can't be held
+  onHoldComplete: (id: string) => void;
+}
+
+// Everything between selecting an item that asks first and running it: the yes/no rings of 'sub-ring' items,
+// arming 'tap-again' items and holding 'hold' items. The options are read when they are needed, so they don't
+// need to be stable. The result only changes when a confirmation starts or ends.
+export function useConfirmFlow(items: RadialMenuItem[], { enabled, isPending, onHoldComplete }: ConfirmFlowOptions) {
+  const optionsRef = useRef({ isPending, onHoldComplete });
+  useEffect(() => {
+    optionsRef.current = { isPending, onHoldComplete };
+  });
+  const {
+    armed, heldItem, arm, disarm, startHold, cancelHold, consumeCompletedHold, reset,
+  } = useItemConfirmation(id => optionsRef.current.onHoldComplete(id));
+
+  // A 'sub-ring' confirmation is a submenu holding the answers, cancel first so it is where focus lands
+  const { tree, answers } = useMemo(() => {
+    const answers = new Map<string, { item: RadialMenuItem; isConfirmed: boolean }>();
+    const tree = !enabled ? items : addConfirmRings(items, item => {
+      const options = resolveConfirmOptions(item.confirm);
+      if (options?.mode !== 'sub-ring') return null;
+      const cancel = { id: getCancelAnswerId(item.id), icon: X, label: options.cancelLabel };
+      const confirm = {
+        id: `${item.id}${CONFIRM_ANSWER_ID_SUFFIX}`, icon: Check, label: options.confirmLabel, description: options.message,
+      };
+      answers.set(cancel.id, { item, isConfirmed: false });
+      answers.set(confirm.id, { item, isConfirmed: true });
+      return [cancel, confirm];
+    });
+    return { tree, answers };
+  }, [items, enabled]);
+
+  // Decides what selecting `item` does, and arms it or shows the hint when that is the step. An armed item only
+  // counts as confirmed while the menu is open.
+  const request = useCallback((item: RadialMenuItem, { isPointer, isOpen = true }: { isPointer: boolean; isOpen?: boolean }) => {
+    const options = resolveConfirmOptions(item.confirm);
+    const step = getConfirmStep(options, { isArmed: isOpen && armed?.id === item.id && !armed.isHint, isPointer });
+    if (step === 'arm' || step === 'hint') {
+      arm({ id: item.id, message: getConfirmMessage(options!, step), isHint: step === 'hint' }, options!.timeout);
+    }
+    return step;
+  }, [armed, arm]);
+
+  // Pressing a 'hold' item starts filling its ring; letting go or leaving it before the ring is full cancels
+  const handleHoldStart = useCallback((event: React.PointerEvent, item: RadialMenuItem) => {
+    const options = resolveConfirmOptions(item.confirm);
+    if (event.button !== 0 || options?.mode !== 'hold' || !enabled) return;
+    if (item.disabled || optionsRef.current.isPending(item.id)) return;
+    disarm();
+    startHold(item.id, options.holdDuration);
+  }, [enabled, disarm, startHold]);
+
+  const getConfirmation = useCallback((id: string): ItemConfirmation | null => {
+    if (heldItem?.id === id) return { state: 'held', duration: heldItem.duration };
+    if (armed?.id === id) return { state: 'armed', message: armed.message, isHint: armed.isHint };
+    return null;
+  }, [heldItem, armed]);
+
+  return useMemo(() => ({
+    tree,
+    getAnswer: (id: string) => answers.get(id),
+    getConfirmation,
+    heldItemId: heldItem?.id ?? null,
+    request,
+    handleHoldStart,
+    cancelHold,
+    consumeCompletedHold,
+    disarm,
+    reset,
+  }), [tree, answers, getConfirmation, heldItem, request, handleHoldStart, cancelHold, consumeCompletedHold, disarm, reset]);
+}
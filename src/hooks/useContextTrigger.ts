@@ -0,0 +1,118 @@
+import { useEffect, useRef, RefObject } from 'react';
+import { Point } from '../utils/pointer';
+
+interface ContextTriggerOptions {
+  enabled: boolean;
+  longPressDelay: number; // ms a finger has to rest on a target to count as a long-press
+  moveTolerance: number; // A long-press is abandoned once the pointer moves further than this
+  onTrigger: (target: HTMLElement, point: Point, viaKeyboard: boolean) => void;
+}
+
+// Reports right-clicks (and the keyboard context-menu key) and touch or pen long-presses on the registered targets,
+// suppressing the native context menu for them.
+export function useContextTrigger(targets: RefObject<HTMLElement>[], options: ContextTriggerOptions) {
+  const onTriggerRef = useRef(options.onTrigger);
+  useEffect(() => {
+    onTriggerRef.current = options.onTrigger;
+  });
+
+  const { enabled, longPressDelay, moveTolerance } = options;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const cleanups = targets.map(targetRef => {
+      const target = targetRef.current;
+      if (!target) return () => {};
+
+      let longPressTimer: number | null = null;
+      let longPress: { pointerId: number; start: Point } | null = null;
+      let hasLongPressFired = false;
+
+      const cancelLongPress = () => {
+        if (longPressTimer !== null) window.clearTimeout(longPressTimer);
+        longPressTimer = null;
+        longPress = null;
+      };
+
+      // Swallows the click the browser sends after the finger lifts, so it can't hit what the ring put under it
+      const suppressNextClick = () => {
+        const handleClick = (event: MouseEvent) => {
+          event.preventDefault();
+          event.stopPropagation();
+        };
+        window.addEventListener('click', handleClick, { capture: true, once: true });
+        window.setTimeout(() => window.removeEventListener('click', handleClick, { capture: true }), 0);
+      };
+
+      const handleContextMenu = (event: MouseEvent) => {
+        event.preventDefault();
+        // Some browsers also report a touch long-press as contextmenu; the first of the two wins
+        if (hasLongPressFired) return;
+        cancelLongPress();
+        // The keyboard context-menu key fires with no pointer position, so anchor on the target instead
+        const viaKeyboard = event.button !== 2 && event.clientX === 0 && event.clientY === 0;
+        if (viaKeyboard) {
+          const rect = target.getBoundingClientRect();
+          onTriggerRef.current(target, { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }, true);
+        } else {
+          onTriggerRef.current(target, { x: event.clientX, y: event.clientY }, false);
+        }
+      };
+
+      // Long-press is for touch and pen; a mouse has its right button
+      const handlePointerDown = (event: PointerEvent) => {
+        if (event.pointerType === 'mouse' || !event.isPrimary) {
+          cancelLongPress();
+          return;
+        }
+        const start = { x: event.clientX, y: event.clientY };
+        hasLongPressFired = false;
+        longPress = { pointerId: event.pointerId, start };
+        longPressTimer = window.setTimeout(() => {
+          longPressTimer = null;
+          hasLongPressFired = true;
+          onTriggerRef.current(target, start, false);
+        }, longPressDelay);
+      };
+
+      const handlePointerMove = (event: PointerEvent) => {
+        if (!longPress || event.pointerId !== longPress.pointerId) return;
+        if (Math.hypot(event.clientX - longPress.start.x, event.clientY - longPress.start.y) > moveTolerance) {
+          cancelLongPress();
+        }
+      };
+
+      const handlePointerUp = (event: PointerEvent) => {
+        if (longPress && event.pointerId !== longPress.pointerId) return;
+        cancelLongPress();
+        if (hasLongPressFired) {
+          hasLongPressFired = false;
+          suppressNextClick();
+        }
+      };
+
+      const handlePointerCancel = () => {
+        cancelLongPress();
+        hasLongPressFired = false;
+      };
+
+      target.addEventListener('contextmenu', handleContextMenu);
+      target.addEventListener('pointerdown', handlePointerDown);
+      target.addEventListener('pointermove', handlePointerMove);
+      target.addEventListener('pointerup', handlePointerUp);
+      target.addEventListener('pointercancel', handlePointerCancel);
+
+      return () => {
+        cancelLongPress();
+        target.removeEventListener('contextmenu', handleContextMenu);
+        target.removeEventListener('pointerdown', handlePointerDown);
+        target.removeEventListener('pointermove', handlePointerMove);
+        target.removeEventListener('pointerup', handlePointerUp);
+        target.removeEventListener('pointercancel', handlePointerCancel);
+      };
+    });
+
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [targets, enabled, longPressDelay, moveTolerance]);
+}
@@ -0,0 +1,35 @@
+import { useState, useCallback, useRef, useEffect, SetStateAction } from 'react';
+
+// State that the parent may own: when `value` is defined it wins and changes are only reported through
+// `onChange`; when it's undefined the hook keeps its own state, seeded from `defaultValue`.
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T | (() => T),
+  onChange?: (value: T) => void,
+) {
+  const [internalValue, setInternalValue] = useState<T>(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : internalValue;
+
+  // Read through refs so `setValue` stays stable for effects and event listeners that capture it
+  const currentValueRef = useRef(currentValue);
+  const isControlledRef = useRef(isControlled);
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    currentValueRef.current = currentValue;
+    isControlledRef.current = isControlled;
+    onChangeRef.current = onChange;
+  });
+
+  const setValue = useCallback((next: SetStateAction<T>) => {
+    const resolved = typeof next === 'function' ? (next as (prev: T) => T)(currentValueRef.current) : next;
+    if (Object.is(resolved, currentValueRef.current)) return;
+    currentValueRef.current = resolved; // Lets several updates in one event build on each other
+    if (!isControlledRef.current) {
+      setInternalValue(resolved);
+    }
+    onChangeRef.current?.(resolved);
+  }, []);
+
+  return [currentValue, setValue] as const;
+}
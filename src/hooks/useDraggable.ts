@@ -1,183 +1,273 @@
 import { useState, useEffect, useCallback, RefObject, useRef } from 'react';
+import { Point } from '../utils/pointer';
+import { applyDockedEdges, clampToBounds, DockedEdges, InertiaOptions, SnapOptions, DEFAULT_EDGE_MARGIN, NOT_DOCKED } from '../core/snapping';
+import { createDragController, easeOutCubic, resolveRestingPosition, SETTLE_DURATION } from '../core/dragController';
+import type { LayoutBounds } from '../core/layout/safeArcs';
+import { getDefaultPositionStorage, loadPosition, savePosition, PositionStorage } from '../utils/positionStorage';
+import { useControllableState } from './useControllableState';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
 
-interface Position {
-  x: number;
-  y: number;
-}
+type Position = Point;
 
 interface DraggableOptions {
-  initialPosition?: Position;
+  initialPosition?: Position; // Center; the middle of the bounds by default
   constrainElementSize?: number;
   dragThreshold?: number;
+  position?: Position; // Controlled top-left position; the hook then only reports moves through onPositionChange
+  onPositionChange?: (position: Position) => void;
+  snapping?: SnapOptions; // Snap points are top-left corners here
+  inertia?: boolean | InertiaOptions; // Keep gliding after a flick, before snapping
+  persistenceKey?: string; // Restores the last dragged-to position from `storage` under this key
+  storage?: PositionStorage; // localStorage by default
+  bounds?: LayoutBounds | null; // Viewport rect the element is kept inside; the window when omitted
+  onDragStart?: (position: Position) => void; // Once the pointer has moved past the threshold
+  onDragEnd?: (position: Position) => void; // With the resting position, after inertia and snapping
 }
 
 const DEFAULT_DRAG_THRESHOLD = 5;
 
+const getViewport = (): LayoutBounds => ({ left: 0, top: 0, width: window.innerWidth, height: window.innerHeight });
+
+// React binding of the core drag controller: pointer capture, state for rendering, the settle animation,
+// persistence and reacting to bounds changes
 export function useDraggable(
   ref: RefObject<HTMLElement>,
   options?: DraggableOptions
 ) {
   const elementSizeForConstraint = options?.constrainElementSize ?? (ref.current?.offsetWidth || 50);
-  const dragThreshold = options?.dragThreshold ?? DEFAULT_DRAG_THRESHOLD;
   
-  const [position, setPosition] = useState<Position>(() => {
-    const initialX = options?.initialPosition?.x ?? (typeof window !== 'undefined' ? window.innerWidth / 2 : 0);
-    const initialY = options?.initialPosition?.y ?? (typeof window !== 'undefined' ? window.innerHeight / 2 : 0);
-    return {
-      x: initialX - elementSizeForConstraint / 2,
-      y: initialY - elementSizeForConstraint / 2,
-    };
-  });
+  // The starting position depends on the viewport and on storage, so it is only settled once mounted (see the
+  // bounds effect below). Until then the element is at the top-left corner and isPlaced is false, which keeps the
+  // server render and hydration identical.
+  const [position, setPosition] = useControllableState<Position>(options?.position, { x: 0, y: 0 }, options?.onPositionChange);
+  const [isPlaced, setIsPlaced] = useState(false);
+  const isPlacedRef = useRef(false);
   
   const [isDragging, setIsDragging] = useState(false);
   const [hasMovedBeyondThreshold, setHasMovedBeyondThreshold] = useState(false);
-  const [dragOffset, setDragOffset] = useState<Position>({ x: 0, y: 0 });
-  const [interactionStartScreenPosition, setInteractionStartScreenPosition] = useState<Position | null>(null);
 
-  const isDraggingRef = useRef(isDragging);
+  // The element capturing the dragging pointer. Other pointers (a second finger, a palm on a hybrid laptop) are
+  // ignored by the controller until this one is released.
+  const captureTargetRef = useRef<Element | null>(null);
+  const settleFrameRef = useRef<number | null>(null);
+  const dockedEdgesRef = useRef<DockedEdges>(NOT_DOCKED);
+  const dragStartPositionRef = useRef<Position | null>(null); // Until the drag start has been reported
 
-  useEffect(() => {
-    isDraggingRef.current = isDragging;
-  }, [isDragging]);
-
-  const getEventCoordinates = (event: MouseEvent | TouchEvent): Position => {
-    if ('touches' in event) {
-      // Ensure touches array is not empty
-      if (event.touches.length > 0) {
-        return { x: event.touches[0].clientX, y: event.touches[0].clientY };
-      } else if (event.changedTouches.length > 0) { 
-        // Fallback for touchend where `touches` is empty but `changedTouches` has info
-        return { x: event.changedTouches[0].clientX, y: event.changedTouches[0].clientY };
-      }
-    }
-    return { x: event.clientX, y: event.clientY };
-  };
+  // Snapping, inertia, persistence and bounds are read from event handlers and the settle animation
+  const optionsRef = useRef(options);
+  // A layout effect, so the bounds effect below already sees this render's options
+  useIsomorphicLayoutEffect(() => {
+    optionsRef.current = options;
+  });
+  const getBounds = useCallback(() => optionsRef.current?.bounds ?? getViewport(), []);
+  const getElementSize = useCallback(
+    () => optionsRef.current?.constrainElementSize ?? ref.current?.offsetWidth ?? elementSizeForConstraint,
+    [ref, elementSizeForConstraint],
+  );
 
-  const handleInteractionStart = useCallback((event: React.MouseEvent | React.TouchEvent) => {
-    if (ref.current) {
-      if ('button' in event && event.button !== 0) return; // Only main mouse button for mouse events
+  const [controller] = useState(() => createDragController({
+    getThreshold: () => optionsRef.current?.dragThreshold ?? DEFAULT_DRAG_THRESHOLD,
+    getElementSize: () => optionsRef.current?.constrainElementSize ?? ref.current?.offsetWidth ?? 0,
+    getBounds: () => optionsRef.current?.bounds ?? getViewport(),
+    getSnapping: () => optionsRef.current?.snapping,
+  }));
 
-      // For touch events, prevent default to stop emulated mouse events and potential page scroll.
-      if (event.type === 'touchstart') {
-        console.log('[useDraggable] Touchstart detected, calling event.preventDefault()');
-        event.preventDefault(); 
-      }
+  const cancelSettle = useCallback(() => {
+    if (settleFrameRef.current !== null) {
+      cancelAnimationFrame(settleFrameRef.current);
+      settleFrameRef.current = null;
+    }
+  }, []);
 
-      const coords = getEventCoordinates(event.nativeEvent as MouseEvent | TouchEvent);
-      
-      console.log('[useDraggable] handleInteractionStart triggered. Coords:', coords, 'Target:', event.target);
-      
-      setDragOffset({
-        x: coords.x - ref.current.getBoundingClientRect().left,
-        y: coords.y - ref.current.getBoundingClientRect().top,
-      });
-      setInteractionStartScreenPosition({ x: coords.x, y: coords.y });
-      setHasMovedBeyondThreshold(false); // Reset this on new interaction start
-      setIsDragging(true); 
-      console.log('[useDraggable] handleInteractionStart: setIsDragging(true) called.');
+  useEffect(() => cancelSettle, [cancelSettle]);
+
+  const persistPosition = useCallback((target: Position, elementSize: number) => {
+    const { persistenceKey, storage } = optionsRef.current ?? {};
+    const resolvedStorage = storage ?? getDefaultPositionStorage();
+    if (persistenceKey && resolvedStorage) {
+      savePosition(resolvedStorage, persistenceKey, target, elementSize, getBounds());
     }
-  }, [ref, dragThreshold, elementSizeForConstraint]); 
+  }, [getBounds]);
 
-  useEffect(() => {
-    const handleInteractionMove = (event: MouseEvent | TouchEvent) => {
-      if (!isDraggingRef.current || !ref.current) return;
+  // After a drag: glide to where the controller says the widget comes to rest, then persist
+  const settle = useCallback((from: Position, velocity: Position, elementSize: number) => {
+    const { snapping, inertia, onDragEnd } = optionsRef.current ?? {};
+    const { position: target, docked } = resolveRestingPosition(from, velocity, elementSize, getBounds(), { snapping, inertia });
+    dockedEdgesRef.current = docked;
+    onDragEnd?.(target);
 
-      if (event.type === 'touchmove') {
-         event.preventDefault();
+    if (target.x === from.x && target.y === from.y) {
+      persistPosition(target, elementSize);
+      return;
+    }
+
+    const startTime = performance.now();
+    const step = (time: number) => {
+      const progress = Math.min((time - startTime) / SETTLE_DURATION, 1);
+      const eased = easeOutCubic(progress);
+      setPosition({ x: from.x + (target.x - from.x) * eased, y: from.y + (target.y - from.y) * eased });
+      if (progress < 1) {
+        settleFrameRef.current = requestAnimationFrame(step);
+      } else {
+        settleFrameRef.current = null;
+        persistPosition(target, elementSize);
       }
+    };
+    settleFrameRef.current = requestAnimationFrame(step);
+  }, [setPosition, persistPosition, getBounds]);
 
-      const coords = getEventCoordinates(event);
+  const handleInteractionStart = useCallback((event: React.PointerEvent) => {
+    if (!ref.current || controller.isDragging()) return;
+    if (!event.isPrimary) return;
+    if (event.pointerType === 'mouse' && event.button !== 0) return; // Only main mouse button; touch and pen report 0
 
-      if (interactionStartScreenPosition && !hasMovedBeyondThreshold) {
-        const deltaX = coords.x - interactionStartScreenPosition.x;
-        const deltaY = coords.y - interactionStartScreenPosition.y;
-        if (Math.sqrt(deltaX * deltaX + deltaY * deltaY) > dragThreshold) {
-          setHasMovedBeyondThreshold(true);
-          console.log('[useDraggable] Moved beyond threshold.');
-        }
-      }
+    const rect = ref.current.getBoundingClientRect();
+    const point = { x: event.clientX, y: event.clientY };
+    if (!controller.start(event.pointerId, point, { x: rect.left, y: rect.top }, performance.now())) return;
+    dragStartPositionRef.current = { x: rect.left, y: rect.top };
+    cancelSettle(); // Catching the widget mid-glide
 
-      let newX = coords.x - dragOffset.x;
-      let newY = coords.y - dragOffset.y;
+    // Capturing keeps move/up events coming to us even when the pointer leaves the window or crosses an iframe
+    const captureTarget = event.currentTarget;
+    captureTarget.setPointerCapture(event.pointerId);
+    captureTargetRef.current = captureTarget;
 
-      const currentElementSize = options?.constrainElementSize ?? ref.current.offsetWidth;
+    setHasMovedBeyondThreshold(false); // Reset this on new interaction start
+    setIsDragging(true); 
+  }, [ref, controller, cancelSettle]); 
 
-      newX = Math.max(0, Math.min(newX, window.innerWidth - currentElementSize));
-      newY = Math.max(0, Math.min(newY, window.innerHeight - currentElementSize));
+  useEffect(() => {
+    const captureTarget = captureTargetRef.current;
+    if (!isDragging || !captureTarget) return;
 
-      setPosition({ x: newX, y: newY });
+    const handleInteractionMove = (event: PointerEvent) => {
+      const move = controller.move(event.pointerId, { x: event.clientX, y: event.clientY }, performance.now());
+      if (!move) return;
+      if (move.hasMovedBeyondThreshold && dragStartPositionRef.current) {
+        setHasMovedBeyondThreshold(true);
+        optionsRef.current?.onDragStart?.(dragStartPositionRef.current);
+        dragStartPositionRef.current = null; // Reported once per drag
+      }
+      setPosition(move.position);
     };
 
-    const handleInteractionEnd = (event: MouseEvent | TouchEvent) => {
-      console.log('[useDraggable] handleInteractionEnd triggered on window. Event type:', event.type);
-      
+    // pointerup, pointercancel (the browser took over, e.g. for a pan) and lostpointercapture (capture was
+    // released some other way) all end the drag, so a release can't get lost
+    const handleInteractionEnd = (event: PointerEvent) => {
+      const release = controller.end(event.pointerId, performance.now());
+      if (!release) return;
+      if (captureTarget.hasPointerCapture(event.pointerId)) {
+        captureTarget.releasePointerCapture(event.pointerId);
+      }
+      captureTargetRef.current = null;
       setIsDragging(false);
-      console.log('[useDraggable] handleInteractionEnd: setIsDragging(false) called.');
+
+      if (release.hasMovedBeyondThreshold) {
+        settle(release.position, release.velocity, getElementSize());
+      }
       // Note: hasMovedBeyondThreshold is NOT reset here. It's reset at the START of a new interaction.
       // This is important for the RadialMenu to correctly determine if the release was a click/tap or end of drag.
     };
 
-    if (isDragging) {
-      console.log('[useDraggable] ADDING window event listeners (mouse & touch).');
-      window.addEventListener('mousemove', handleInteractionMove);
-      window.addEventListener('mouseup', handleInteractionEnd);
-      window.addEventListener('touchmove', handleInteractionMove, { passive: false }); 
-      window.addEventListener('touchend', handleInteractionEnd);
-      
-      document.body.style.userSelect = 'none';
-      document.body.style.webkitUserSelect = 'none'; 
-      document.body.style.msUserSelect = 'none'; 
-    }
+    captureTarget.addEventListener('pointermove', handleInteractionMove as EventListener);
+    captureTarget.addEventListener('pointerup', handleInteractionEnd as EventListener);
+    captureTarget.addEventListener('pointercancel', handleInteractionEnd as EventListener);
+    captureTarget.addEventListener('lostpointercapture', handleInteractionEnd as EventListener);
+    const { body } = captureTarget.ownerDocument; // The frame's own document when rendered into an iframe
+    body.style.userSelect = 'none';
+    body.style.webkitUserSelect = 'none'; 
 
     return () => {
-      console.log('[useDraggable] CLEANUP for event listener effect. REMOVING window event listeners (mouse & touch).');
-      window.removeEventListener('mousemove', handleInteractionMove);
-      window.removeEventListener('mouseup', handleInteractionEnd);
-      window.removeEventListener('touchmove', handleInteractionMove);
-      window.removeEventListener('touchend', handleInteractionEnd);
-      
-      document.body.style.userSelect = '';
-      document.body.style.webkitUserSelect = '';
-      document.body.style.msUserSelect = '';
+      captureTarget.removeEventListener('pointermove', handleInteractionMove as EventListener);
+      captureTarget.removeEventListener('pointerup', handleInteractionEnd as EventListener);
+      captureTarget.removeEventListener('pointercancel', handleInteractionEnd as EventListener);
+      captureTarget.removeEventListener('lostpointercapture', handleInteractionEnd as EventListener);
+      body.style.userSelect = '';
+      body.style.webkitUserSelect = '';
     };
-  }, [
-    isDragging, 
-    dragOffset, 
-    ref, 
-    options?.constrainElementSize, 
-    interactionStartScreenPosition, 
-    hasMovedBeyondThreshold, // This dependency is important
-    dragThreshold, 
-    setPosition
-  ]);
+  }, [isDragging, controller, setPosition, settle, getElementSize]);
 
-  useEffect(() => {
-    const handleResize = () => {
-      if (ref.current) {
-        const currentElementSize = options?.constrainElementSize ?? ref.current.offsetWidth;
-        setPosition(prevPos => ({
-          x: Math.max(0, Math.min(prevPos.x, window.innerWidth - currentElementSize)),
-          y: Math.max(0, Math.min(prevPos.y, window.innerHeight - currentElementSize)),
-        }));
+  // The explicit bounds last applied to the position; null while the window is the bounds
+  const appliedBoundsRef = useRef<LayoutBounds | null>(null);
+  const boundsLeft = options?.bounds?.left;
+  const boundsTop = options?.bounds?.top;
+  const boundsWidth = options?.bounds?.width;
+  const boundsHeight = options?.bounds?.height;
+
+  useIsomorphicLayoutEffect(() => {
+    const handleBoundsChange = () => {
+      if (!ref.current) return;
+      const currentElementSize = options?.constrainElementSize ?? ref.current.offsetWidth;
+      const edgeMargin = optionsRef.current?.snapping?.edgeMargin ?? DEFAULT_EDGE_MARGIN;
+      const bounds = boundsWidth === undefined || boundsHeight === undefined
+        ? getViewport()
+        : { left: boundsLeft ?? 0, top: boundsTop ?? 0, width: boundsWidth, height: boundsHeight };
+      const previousBounds = appliedBoundsRef.current;
+      appliedBoundsRef.current = boundsWidth === undefined ? null : bounds;
+      const { persistenceKey, storage, position: controlledPosition, initialPosition } = optionsRef.current ?? {};
+      const centered = {
+        x: (bounds.left ?? 0) + (bounds.width - currentElementSize) / 2,
+        y: (bounds.top ?? 0) + (bounds.height - currentElementSize) / 2,
+      };
+
+      // First layout: the remembered position, the initial one or the middle of the bounds
+      if (!isPlacedRef.current) {
+        isPlacedRef.current = true;
+        setIsPlaced(true);
+        if (controlledPosition) return;
+        const resolvedStorage = storage ?? getDefaultPositionStorage();
+        const restored = persistenceKey && resolvedStorage
+          ? loadPosition(resolvedStorage, persistenceKey, currentElementSize, bounds)
+          : null;
+        setPosition(restored ?? (initialPosition
+          ? { x: initialPosition.x - currentElementSize / 2, y: initialPosition.y - currentElementSize / 2 }
+          : centered));
+        return;
+      }
+
+      // A boundary element is measured after the first render, so the starting position is only settled once it
+      // is known: a remembered one is restored relative to it, and one outside of it moves to its middle
+      if (!previousBounds && appliedBoundsRef.current && !controlledPosition) {
+        const resolvedStorage = storage ?? getDefaultPositionStorage();
+        const restored = persistenceKey && resolvedStorage
+          ? loadPosition(resolvedStorage, persistenceKey, currentElementSize, bounds)
+          : null;
+        const boundsLeftEdge = bounds.left ?? 0;
+        const boundsTopEdge = bounds.top ?? 0;
+        setPosition(prevPos => {
+          if (restored) return restored;
+          const isInside = prevPos.x >= boundsLeftEdge && prevPos.x + currentElementSize <= boundsLeftEdge + bounds.width
+            && prevPos.y >= boundsTopEdge && prevPos.y + currentElementSize <= boundsTopEdge + bounds.height;
+          return isInside ? prevPos : centered;
+        });
+        return;
       }
+
+      // The widget travels with its boundary, e.g. when the page around it scrolls
+      const shiftX = previousBounds ? (bounds.left ?? 0) - (previousBounds.left ?? 0) : 0;
+      const shiftY = previousBounds ? (bounds.top ?? 0) - (previousBounds.top ?? 0) : 0;
+      setPosition(prevPos => {
+        const shifted = { x: prevPos.x + shiftX, y: prevPos.y + shiftY };
+        // A docked widget follows its edges instead of staying where it was
+        const docked = applyDockedEdges(shifted, dockedEdgesRef.current, currentElementSize, bounds, edgeMargin);
+        const { x, y } = clampToBounds(docked, currentElementSize, bounds);
+        // Keep the same object when nothing was clamped so a controlling parent isn't notified of a non-move
+        return x === prevPos.x && y === prevPos.y ? prevPos : { x, y };
+      });
     };
-    window.addEventListener('resize', handleResize);
-    if (typeof window !== 'undefined') handleResize(); 
-    return () => window.removeEventListener('resize', handleResize);
-  }, [ref, options?.constrainElementSize, setPosition]);
-
-  // Ensure hasMovedBeyondThreshold is also reset if isDragging becomes false externally or unexpectedly
-  // Although current logic should handle it via new interaction start.
-  // This effect might be redundant if interaction flow is strictly followed.
-  useEffect(() => {
-    if (!isDragging) {
-      // setHasMovedBeyondThreshold(false); // Reconsidering this: it should only reset on a NEW interaction start.
-                                        // Otherwise, a drag ending could reset it, and if an emulated click follows
-                                        // without a new mousedown, it might toggle.
-                                        // The current logic of resetting in handleInteractionStart is better.
-    }
-  }, [isDragging]);
+    handleBoundsChange();
+    // Explicit bounds are re-measured by whoever provides them
+    if (boundsWidth !== undefined) return;
+    window.addEventListener('resize', handleBoundsChange);
+    return () => window.removeEventListener('resize', handleBoundsChange);
+  }, [ref, options?.constrainElementSize, setPosition, boundsLeft, boundsTop, boundsWidth, boundsHeight]);
 
+  // Programmatic move of the top-left corner, clamped to the bounds like a drag would be
+  const moveTo = useCallback((target: Position) => {
+    cancelSettle();
+    dockedEdgesRef.current = NOT_DOCKED;
+    setPosition(clampToBounds(target, getElementSize(), getBounds()));
+  }, [setPosition, cancelSettle, getBounds, getElementSize]);
 
-  return { position, handleInteractionStart, isDragging, hasMovedBeyondThreshold };
+  return { position, isPlaced: isPlaced || options?.position !== undefined, handleInteractionStart, isDragging, hasMovedBeyondThreshold, moveTo };
 }
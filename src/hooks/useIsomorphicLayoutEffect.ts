@@ -0,0 +1,5 @@
+import { useEffect, useLayoutEffect } from 'react';
+
+// A layout effect in the browser, so measurements land before the first paint; a no-op effect on the server,
+// where useLayoutEffect only warns
+export const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
@@ -0,0 +1,62 @@
+import { useState, useCallback } from 'react';
+
+export type ItemActionStatus = { state: 'pending' } | { state: 'error'; message: string };
+
+const DEFAULT_ERROR_MESSAGE = 'Action failed';
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error && error.message ? error.message : (typeof error === 'string' && error ? error : DEFAULT_ERROR_MESSAGE);
+
+// Tracks item actions that returned a promise: the item is pending until it settles, and keeps the failure
+// message afterwards so it can be shown until the user retries or the menu closes.
+export function useItemActionStatus() {
+  const [statuses, setStatuses] = useState<Record<string, ItemActionStatus>>({});
+
+  const setStatus = useCallback((id: string, status: ItemActionStatus | null) => {
+    setStatuses(prev => {
+      if (status) return { ...prev, [id]: status };
+      if (!(id in prev)) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  // Runs `action` and calls `onSuccess` once it has completed, right away for synchronous actions. Throwing
+  // counts as failing, just like rejecting.
+  const runAction = useCallback((id: string, action: () => unknown, onSuccess: () => void) => {
+    setStatus(id, null);
+    let result: unknown;
+    try {
+      result = action();
+    } catch (error) {
+      setStatus(id, { state: 'error', message: getErrorMessage(error) });
+      return;
+    }
+    if (!isPromiseLike(result)) {
+      onSuccess();
+      return;
+    }
+    setStatus(id, { state: 'pending' });
+    result.then(
+      () => {
+        setStatus(id, null);
+        onSuccess();
+      },
+      error => setStatus(id, { state: 'error', message: getErrorMessage(error) }),
+    );
+  }, [setStatus]);
+
+  // Pending actions keep running in the background, so only failures are forgotten
+  const clearErrors = useCallback(() => {
+    setStatuses(prev => {
+      const pending = Object.entries(prev).filter(([, status]) => status.state === 'pending');
+      return pending.length === Object.keys(prev).length ? prev : Object.fromEntries(pending);
+    });
+  }, []);
+
+  return { statuses, runAction, clearErrors };
+}
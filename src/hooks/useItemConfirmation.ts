@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// The item waiting for a second selection, or the hint shown when a 'hold' item was only clicked
+export interface ArmedConfirmation {
+  id: string;
+  message: string;
+  isHint: boolean; // A hint doesn't count as the first of two selections
+}
+
+// Tracks the confirmations in progress: at most one armed item, which disarms itself after a while, and at most one
+// item being held. `onHoldComplete` is read when the hold finishes, so it doesn't need to be stable.
+export function useItemConfirmation(onHoldComplete: (id: string) => void) {
+  const [armed, setArmed] = useState<ArmedConfirmation | null>(null);
+  const [heldItem, setHeldItem] = useState<{ id: string; duration: number } | null>(null);
+  const armTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const holdTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // The click that ends a completed hold must not count as another selection
+  const completedHoldIdRef = useRef<string | null>(null);
+  const onHoldCompleteRef = useRef(onHoldComplete);
+  useEffect(() => {
+    onHoldCompleteRef.current = onHoldComplete;
+  });
+
+  useEffect(() => () => {
+    clearTimeout(armTimeoutRef.current);
+    clearTimeout(holdTimeoutRef.current);
+  }, []);
+
+  const arm = useCallback((confirmation: ArmedConfirmation, timeout: number) => {
+    clearTimeout(armTimeoutRef.current);
+    setArmed(confirmation);
+    armTimeoutRef.current = setTimeout(() => setArmed(null), timeout);
+  }, []);
+
+  const disarm = useCallback(() => {
+    clearTimeout(armTimeoutRef.current);
+    setArmed(prev => (prev ? null : prev));
+  }, []);
+
+  const startHold = useCallback((id: string, duration: number) => {
+    clearTimeout(holdTimeoutRef.current);
+    completedHoldIdRef.current = null;
+    setHeldItem({ id, duration });
+    holdTimeoutRef.current = setTimeout(() => {
+      completedHoldIdRef.current = id;
+      setHeldItem(null);
+      onHoldCompleteRef.current(id);
+    }, duration);
+  }, []);
+
+  const cancelHold = useCallback(() => {
+    clearTimeout(holdTimeoutRef.current);
+    setHeldItem(prev => (prev ? null : prev));
+  }, []);
+
+  // True once for the click that follows a completed hold of `id`
+  const consumeCompletedHold = useCallback((id: string) => {
+    const isCompleted = completedHoldIdRef.current === id;
+    completedHoldIdRef.current = null;
+    return isCompleted;
+  }, []);
+
+  // Forgets everything, e.g. when the menu closes
+  const reset = useCallback(() => {
+    disarm();
+    cancelHold();
+    completedHoldIdRef.current = null;
+  }, [disarm, cancelHold]);
+
+  return { armed, heldItem, arm, disarm, startHold, cancelHold, consumeCompletedHold, reset };
+}
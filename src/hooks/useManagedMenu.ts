@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore, RefObject } from 'react';
+import { getMenuObstacles, MenuFootprint, MenuManagerSnapshot } from '../core/menuManager';
+import { areRectListsEqual, ObstacleRect } from '../core/layout/obstacles';
+import { useRadialMenuManager } from '../manager/RadialMenuManagerContext';
+
+const NO_OBSTACLES: ObstacleRect[] = [];
+const UNMANAGED_SNAPSHOT: MenuManagerSnapshot = { stack: [], openIds: [], footprints: {} };
+const subscribeToNothing = () => () => {};
+const getUnmanagedSnapshot = () => UNMANAGED_SNAPSHOT;
+
+// Where menu `id` stands among the other menus of its RadialMenuProvider: how far in front it is, and what its
+// rings keep clear of. Outside a provider the menu is on its own and there is nothing to avoid.
+export function useManagedMenuPlacement(id: string) {
+  const manager = useRadialMenuManager();
+  const snapshot = useSyncExternalStore(
+    manager?.subscribe ?? subscribeToNothing,
+    manager?.getSnapshot ?? getUnmanagedSnapshot,
+    manager?.getSnapshot ?? getUnmanagedSnapshot,
+  );
+
+  // A new array only when the rects change, since layouts recompute on every new obstacles array
+  const [obstacles, setObstacles] = useState(NO_OBSTACLES);
+  const nextObstacles = getMenuObstacles(snapshot, id);
+  if (!areRectListsEqual(obstacles, nextObstacles)) setObstacles(nextObstacles.length > 0 ? nextObstacles : NO_OBSTACLES);
+
+  const bringToFront = useCallback(() => manager?.bringToFront(id), [manager, id]);
+
+  return { isManaged: manager !== null, stackIndex: Math.max(snapshot.stack.indexOf(id), 0), obstacles, bringToFront };
+}
+
+interface ManagedMenuOptions {
+  isOpen: boolean;
+  menuRef: RefObject<HTMLElement>;
+  footprint: MenuFootprint;
+  closeOnOutsideClick: boolean;
+  onClose: (reason: 'outside-click' | 'other-menu') => void;
+  onKeyDown: (event: KeyboardEvent) => void; // Escape and typing while open
+}
+
+// Registers menu `id` with the closest RadialMenuProvider, which then routes outside clicks and the keyboard to it
+// and closes it when another menu opens. Does nothing outside a provider.
+export function useManagedMenu(id: string, options: ManagedMenuOptions) {
+  const manager = useRadialMenuManager();
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!manager) return;
+    return manager.register(id, {
+      close: () => optionsRef.current.onClose('other-menu'),
+      contains: eventPath => {
+        const menu = optionsRef.current.menuRef.current;
+        return !!menu && eventPath.includes(menu);
+      },
+      getOwnerDocument: () => optionsRef.current.menuRef.current?.ownerDocument ?? null,
+      closesOnOutsideClick: () => optionsRef.current.isOpen && optionsRef.current.closeOnOutsideClick,
+      onOutsideClick: () => optionsRef.current.onClose('outside-click'),
+      onKeyDown: event => {
+        if (optionsRef.current.isOpen) optionsRef.current.onKeyDown(event);
+      },
+    });
+  }, [manager, id]);
+
+  const { isOpen, footprint } = options;
+  useEffect(() => {
+    manager?.setOpen(id, isOpen);
+  }, [manager, id, isOpen]);
+
+  // The manager ignores footprints that haven't changed
+  useEffect(() => {
+    manager?.setFootprint(id, footprint);
+  }, [manager, id, footprint]);
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getAngleFromCenter, getAngularDistance, Point } from '../utils/pointer';
+
+export interface MarkingCandidate {
+  id: string;
+  angle: number; // Same convention as ItemPosition.angle
+}
+
+interface MarkingGestureOptions {
+  getCenter: () => Point | null; // Absolute center the marks are measured from
+  candidates: MarkingCandidate[];
+  deadZoneRadius: number; // Inside this radius no item is picked, so releasing there cancels
+  moveThreshold: number; // Below this distance from the press point the gesture counts as a tap
+  revealDelay: number; // ms before the ring is drawn; marks released earlier select without ever showing it
+  onCandidateChange: (id: string | null) => void;
+  onSelect: (id: string) => void;
+  onTap: () => void;
+  onCancel: () => void;
+}
+
+interface GestureState {
+  pointerId: number;
+  captureTarget: Element;
+  startPoint: Point;
+  hasMoved: boolean;
+  candidateId: string | null;
+}
+
+// Press-drag-release selection ("marking menu"): the item is picked by the direction of the pointer from the
+// center rather than by hitting its circle, which is what lets experts select with a quick flick.
+export function useMarkingGesture(options: MarkingGestureOptions) {
+  const [isGestureActive, setIsGestureActive] = useState(false);
+  const [isRingConcealed, setIsRingConcealed] = useState(false);
+  const gestureRef = useRef<GestureState | null>(null);
+
+  // Listeners are attached once per gesture, so they read the latest options (candidates appear after opening)
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const handleGestureStart = useCallback((event: React.PointerEvent) => {
+    if (gestureRef.current || !event.isPrimary) return;
+    if (event.pointerType === 'mouse' && event.button !== 0) return; // Only main mouse button; touch and pen report 0
+
+    // Same as useDraggable: the capturing element keeps receiving the mark wherever the pointer goes
+    const captureTarget = event.currentTarget;
+    captureTarget.setPointerCapture(event.pointerId);
+
+    gestureRef.current = {
+      pointerId: event.pointerId,
+      captureTarget,
+      startPoint: { x: event.clientX, y: event.clientY },
+      hasMoved: false,
+      candidateId: null,
+    };
+    setIsRingConcealed(true);
+    setIsGestureActive(true);
+  }, []);
+
+  useEffect(() => {
+    const activeGesture = gestureRef.current;
+    if (!isGestureActive || !activeGesture) return;
+    const { pointerId, captureTarget } = activeGesture;
+
+    const findCandidateId = (point: Point): string | null => {
+      const { getCenter, candidates, deadZoneRadius } = optionsRef.current;
+      const center = getCenter();
+      if (!center || candidates.length === 0) return null;
+      if (Math.hypot(point.x - center.x, point.y - center.y) < deadZoneRadius) return null;
+
+      const pointerAngle = getAngleFromCenter(center, point);
+      let closest = candidates[0];
+      for (const candidate of candidates) {
+        if (getAngularDistance(candidate.angle, pointerAngle) < getAngularDistance(closest.angle, pointerAngle)) {
+          closest = candidate;
+        }
+      }
+      return closest.id;
+    };
+
+    const updateGesture = (point: Point) => {
+      const gesture = gestureRef.current;
+      if (!gesture) return;
+      if (!gesture.hasMoved) {
+        const distance = Math.hypot(point.x - gesture.startPoint.x, point.y - gesture.startPoint.y);
+        gesture.hasMoved = distance > optionsRef.current.moveThreshold;
+      }
+      const candidateId = gesture.hasMoved ? findCandidateId(point) : null;
+      if (candidateId !== gesture.candidateId) {
+        gesture.candidateId = candidateId;
+        optionsRef.current.onCandidateChange(candidateId);
+      }
+    };
+
+    const handleGestureMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      updateGesture({ x: event.clientX, y: event.clientY });
+    };
+
+    const handleGestureEnd = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId || !gestureRef.current) return;
+      if (event.type === 'pointerup') {
+        // Re-evaluate at the release point: a fast flick may end before any move event saw the ring's positions
+        updateGesture({ x: event.clientX, y: event.clientY });
+      }
+      const gesture = gestureRef.current;
+      gestureRef.current = null;
+      if (captureTarget.hasPointerCapture(pointerId)) {
+        captureTarget.releasePointerCapture(pointerId);
+      }
+      setIsGestureActive(false);
+      setIsRingConcealed(false);
+
+      // A cancelled pointer (the browser took over) never selects
+      if (event.type !== 'pointerup') {
+        optionsRef.current.onCancel();
+      } else if (gesture.candidateId) {
+        optionsRef.current.onSelect(gesture.candidateId);
+      } else if (!gesture.hasMoved) {
+        optionsRef.current.onTap();
+      } else {
+        optionsRef.current.onCancel();
+      }
+    };
+
+    const revealTimer = window.setTimeout(() => setIsRingConcealed(false), optionsRef.current.revealDelay);
+    captureTarget.addEventListener('pointermove', handleGestureMove as EventListener);
+    captureTarget.addEventListener('pointerup', handleGestureEnd as EventListener);
+    captureTarget.addEventListener('pointercancel', handleGestureEnd as EventListener);
+    captureTarget.addEventListener('lostpointercapture', handleGestureEnd as EventListener);
+    document.body.style.userSelect = 'none';
+
+    return () => {
+      window.clearTimeout(revealTimer);
+      captureTarget.removeEventListener('pointermove', handleGestureMove as EventListener);
+      captureTarget.removeEventListener('pointerup', handleGestureEnd as EventListener);
+      captureTarget.removeEventListener('pointercancel', handleGestureEnd as EventListener);
+      captureTarget.removeEventListener('lostpointercapture', handleGestureEnd as EventListener);
+      document.body.style.userSelect = '';
+    };
+  }, [isGestureActive]);
+
+  return { handleGestureStart, isGestureActive, isRingConcealed };
+}
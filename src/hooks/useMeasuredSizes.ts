@@ -0,0 +1,21 @@
+import { useState, useCallback } from 'react';
+import type { LabelSize } from '../core/layout/labels';
+
+// Layout sizes of keyed elements, measured during commit so text placed from them doesn't flash in the wrong
+// spot. Pass registerElement through an inline ref callback: React calls those on every render, so changed text
+// is re-measured. offsetWidth/offsetHeight ignore transforms, so rotated labels measure fine.
+export function useMeasuredSizes() {
+  const [sizes, setSizes] = useState<Record<string, LabelSize>>({});
+
+  const registerElement = useCallback((key: string, element: HTMLElement | null) => {
+    if (!element) return; // Sizes of removed elements are kept; they are harmless and come back on remount
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+    // Only a real change re-renders, so measuring on every render settles after one pass
+    setSizes(prev => (
+      prev[key]?.width === width && prev[key]?.height === height ? prev : { ...prev, [key]: { width, height } }
+    ));
+  }, []);
+
+  return { sizes, registerElement };
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import type { RadialMenuItem } from '../components/RadialMenu';
+import { MenuDefinitionIssue, validateMenuDefinition } from '../definitions/menuDefinition';
+import { getRegistryChecks, resolveMenuDefinition, ResolveOptions } from '../definitions/registries';
+
+const NO_ITEMS: RadialMenuItem[] = [];
+const NO_ISSUES: MenuDefinitionIssue[] = [];
+
+// Items for <RadialMenu> from a JSON menu document, e.g. one fetched from the server. An invalid document gives
+// no items and the list of issues. Keep `source` and the registries stable; they are the memo's inputs.
+export function useMenuDefinition(source: unknown, { icons, commands, fallbackIcon }: ResolveOptions) {
+  return useMemo(() => {
+    if (source === undefined || source === null) return { items: NO_ITEMS, issues: NO_ISSUES };
+    const result = validateMenuDefinition(source, getRegistryChecks({ icons, commands, fallbackIcon }));
+    return result.valid
+      ? { items: resolveMenuDefinition(result.definition, { icons, commands, fallbackIcon }), issues: NO_ISSUES }
+      : { items: NO_ITEMS, issues: result.issues };
+  }, [source, icons, commands, fallbackIcon]);
+}
@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_MENU_PREFERENCES, MenuPreferences } from '../core/menuPreferences';
+import { loadMenuPreferences, saveMenuPreferences, PreferencesStorage } from '../utils/preferencesStorage';
+import { getDefaultPositionStorage } from '../utils/positionStorage';
+
+// A menu's customization, loaded from and saved to `storage` under `storageKey`. Without a key the preferences
+// still work, they just last as long as the component.
+export function useMenuPreferences(storageKey: string | undefined, storage?: PreferencesStorage) {
+  const resolvedStorage = storage ?? getDefaultPositionStorage();
+  const load = () => (storageKey && resolvedStorage ? loadMenuPreferences(resolvedStorage, storageKey) : DEFAULT_MENU_PREFERENCES);
+  const [state, setState] = useState(() => ({ storageKey, preferences: load() }));
+
+  // Another menu id means another user's or another menu's preferences
+  let current = state;
+  if (state.storageKey !== storageKey) {
+    current = { storageKey, preferences: load() };
+    setState(current);
+  }
+
+  const updatePreferences = useCallback((update: (preferences: MenuPreferences) => MenuPreferences) => {
+    setState(prev => {
+      const preferences = update(prev.preferences);
+      if (prev.storageKey && resolvedStorage) saveMenuPreferences(resolvedStorage, prev.storageKey, preferences);
+      return { ...prev, preferences };
+    });
+  }, [resolvedStorage]);
+
+  const resetPreferences = useCallback(() => updatePreferences(() => DEFAULT_MENU_PREFERENCES), [updatePreferences]);
+
+  return { preferences: current.preferences, updatePreferences, resetPreferences };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { MenuNavigationAction, MenuRings } from '../core/menuState';
+import type { MenuTreeNode } from '../core/menuTree';
+
+// The search typed into an open ring: which characters of each result's label matched, or null while there is no
+// search, and changing or leaving the query. `onClear` runs after the search has been left; it is read then, so it
+// doesn't need to be stable.
+export function useMenuSearch<T extends MenuTreeNode<T>>(
+  rings: MenuRings<T>,
+  dispatchNavigation: React.Dispatch<MenuNavigationAction>,
+  onClear: () => void,
+) {
+  const onClearRef = useRef(onClear);
+  useEffect(() => {
+    onClearRef.current = onClear;
+  });
+
+  const { isSearching, searchResults } = rings;
+  const highlights = useMemo(
+    () => (isSearching ? new Map(searchResults.map(result => [result.item.id, result.labelIndices])) : null),
+    [isSearching, searchResults],
+  );
+
+  const clearSearch = useCallback(() => {
+    dispatchNavigation({ type: 'setQuery', query: '' });
+    onClearRef.current();
+  }, [dispatchNavigation]);
+
+  const setQuery = useCallback((query: string) => {
+    if (query) {
+      dispatchNavigation({ type: 'setQuery', query });
+    } else {
+      clearSearch();
+    }
+  }, [dispatchNavigation, clearSearch]);
+
+  return { highlights, setQuery, clearSearch };
+}
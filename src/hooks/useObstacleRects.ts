@@ -0,0 +1,79 @@
+import { useState, useEffect, RefObject } from 'react';
+import { areRectListsEqual, ObstacleRect } from '../core/layout/obstacles';
+
+// An element to avoid, a fixed viewport rectangle, or a CSS selector matching any number of elements
+export type ObstacleSource = RefObject<Element> | ObstacleRect | string;
+
+const NO_RECTS: ObstacleRect[] = [];
+
+const toObstacleRect = ({ left, top, right, bottom }: ObstacleRect): ObstacleRect => ({ left, top, right, bottom });
+
+// Measures the obstacles while `enabled`, and re-measures when they resize, the page scrolls or resizes, or the
+// DOM changes (e.g. a toast appears). Elements inside `ownerRef` are never treated as obstacles.
+export function useObstacleRects(sources: ObstacleSource[], enabled: boolean, ownerRef: RefObject<Element>): ObstacleRect[] {
+  const [rects, setRects] = useState<ObstacleRect[]>(NO_RECTS);
+
+  useEffect(() => {
+    if (!enabled || sources.length === 0) {
+      setRects(NO_RECTS);
+      return;
+    }
+
+    // Selectors are matched, and scrolling watched, in the menu's own document, an iframe's when portalled into one
+    const ownerDocument = ownerRef.current?.ownerDocument ?? document;
+    const ownerWindow = ownerDocument.defaultView ?? window;
+    const observedElements = new Set<Element>();
+    let frame: number | null = null;
+
+    const resolveElements = (): Element[] => sources.flatMap(source => {
+      if (typeof source === 'string') return Array.from(ownerDocument.querySelectorAll(source));
+      if ('current' in source) return source.current ? [source.current] : [];
+      return [];
+    }).filter(element => !ownerRef.current?.contains(element));
+
+    const measure = () => {
+      frame = null;
+      const elements = resolveElements();
+      elements.forEach(element => {
+        // Observing fires a callback right away, so only newly seen elements are observed
+        if (!observedElements.has(element)) {
+          observedElements.add(element);
+          resizeObserver?.observe(element);
+        }
+      });
+
+      const next = [
+        ...sources.filter((source): source is ObstacleRect => typeof source !== 'string' && !('current' in source)),
+        ...elements.map(element => toObstacleRect(element.getBoundingClientRect())),
+      ].filter(rect => rect.right > rect.left && rect.bottom > rect.top); // Hidden elements measure as empty
+
+      setRects(prev => (areRectListsEqual(prev, next) ? prev : next));
+    };
+
+    const scheduleMeasure = () => {
+      if (frame === null) frame = ownerWindow.requestAnimationFrame(measure);
+    };
+
+    const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleMeasure) : null;
+    // The menu restyles itself while it animates, which must not trigger measuring again
+    const mutationObserver = typeof MutationObserver !== 'undefined'
+      ? new MutationObserver(records => {
+        if (records.some(record => !ownerRef.current?.contains(record.target))) scheduleMeasure();
+      })
+      : null;
+    mutationObserver?.observe(ownerDocument.body, { childList: true, subtree: true, attributes: true, attributeFilter: ['style', 'class'] });
+    ownerWindow.addEventListener('resize', scheduleMeasure);
+    ownerWindow.addEventListener('scroll', scheduleMeasure, { capture: true, passive: true });
+    measure();
+
+    return () => {
+      if (frame !== null) ownerWindow.cancelAnimationFrame(frame);
+      resizeObserver?.disconnect();
+      mutationObserver?.disconnect();
+      ownerWindow.removeEventListener('resize', scheduleMeasure);
+      ownerWindow.removeEventListener('scroll', scheduleMeasure, { capture: true });
+    };
+  }, [sources, enabled, ownerRef]);
+
+  return rects;
+}
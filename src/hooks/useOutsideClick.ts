@@ -0,0 +1,26 @@
+import { useEffect, useRef, RefObject } from 'react';
+
+// Calls `onOutsideClick` when a press starts outside `ref` while `enabled`
+export function useOutsideClick(ref: RefObject<HTMLElement>, enabled: boolean, onOutsideClick: () => void) {
+  const onOutsideClickRef = useRef(onOutsideClick);
+  useEffect(() => {
+    onOutsideClickRef.current = onOutsideClick;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handlePressStart = (event: PointerEvent) => {
+      // The composed path reaches into shadow roots, where event.target is only the host
+      if (ref.current && !event.composedPath().includes(ref.current)) {
+        onOutsideClickRef.current();
+      }
+    };
+
+    // Capture phase, so targets that stop propagation still dismiss the menu. Listens on the element's own
+    // document, which is an iframe's when the menu is rendered into one.
+    const ownerDocument = ref.current?.ownerDocument ?? document;
+    ownerDocument.addEventListener('pointerdown', handlePressStart, true);
+    return () => ownerDocument.removeEventListener('pointerdown', handlePressStart, true);
+  }, [ref, enabled]);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getOwnerDocument, resolvePortalContainer, PortalTarget } from '../utils/portal';
+
+// The container a portalled menu renders into, with the document and window it lives in. Null until mounted, so
+// the server and the hydrating client both render nothing there; undefined when the menu renders inline.
+export function usePortalTarget(portal: PortalTarget | undefined) {
+  const [isMounted, setIsMounted] = useState(false);
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  return useMemo(() => {
+    if (!portal) return undefined;
+    if (!isMounted) return null;
+    const container = resolvePortalContainer(portal);
+    const ownerDocument = getOwnerDocument(container);
+    return {
+      container,
+      ownerDocument,
+      ownerWindow: ownerDocument.defaultView ?? window,
+      // Shadow roots and iframes don't see the page's stylesheets
+      needsStyles: container.getRootNode() !== document,
+    };
+  }, [portal, isMounted]);
+}
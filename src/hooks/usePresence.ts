@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef } from 'react';
+
+// 'preEnter' renders the hidden state for a frame so the browser has something to transition from
+export type PresencePhase = 'closed' | 'preEnter' | 'entering' | 'open' | 'exiting';
+
+interface PresenceOptions {
+  enterDuration: number; // ms, including any stagger
+  exitDuration: number;
+  onEnterStart?: () => void;
+  onEnterComplete?: () => void;
+  onExitStart?: () => void;
+  onExitComplete?: () => void;
+}
+
+// Keeps content mounted while it animates out, and steps through the phases of its enter and exit transitions
+export function usePresence(isShown: boolean, options: PresenceOptions): PresencePhase {
+  const [phase, setPhase] = useState<PresencePhase>(isShown ? 'open' : 'closed');
+  const wasShownRef = useRef(isShown);
+
+  // The timers are started once per change of isShown, so they read the latest durations and callbacks
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (wasShownRef.current === isShown) return;
+    wasShownRef.current = isShown;
+    const { enterDuration, exitDuration } = optionsRef.current;
+    let frame = 0;
+    let timer = 0;
+
+    if (isShown) {
+      optionsRef.current.onEnterStart?.();
+      setPhase('preEnter');
+      // Two frames, so the hidden state is painted before the shown state is applied
+      frame = requestAnimationFrame(() => {
+        frame = requestAnimationFrame(() => {
+          setPhase('entering');
+          timer = window.setTimeout(() => {
+            setPhase('open');
+            optionsRef.current.onEnterComplete?.();
+          }, enterDuration);
+        });
+      });
+    } else {
+      optionsRef.current.onExitStart?.();
+      setPhase('exiting');
+      timer = window.setTimeout(() => {
+        setPhase('closed');
+        optionsRef.current.onExitComplete?.();
+      }, exitDuration);
+    }
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearTimeout(timer);
+    };
+  }, [isShown]);
+
+  return phase;
+}
@@ -0,0 +1,73 @@
+import { useState, useCallback, useRef } from 'react';
+
+// Roving tabindex over a set of items: exactly one item is tabbable and arrow keys move focus
+// through `orderedIds` (wrapping at both ends).
+export function useRovingFocus(orderedIds: string[]) {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  // Items are laid out after the ring opens, so focus requests for items that are not mounted yet are deferred
+  const pendingFocusIdRef = useRef<string | null>(null);
+
+  const registerItem = useCallback((id: string, element: HTMLElement | null) => {
+    if (!element) {
+      elementsRef.current.delete(id);
+      return;
+    }
+    elementsRef.current.set(id, element);
+    if (pendingFocusIdRef.current === id) {
+      pendingFocusIdRef.current = null;
+      element.focus();
+    }
+  }, []);
+
+  const focusItem = useCallback((id: string | null) => {
+    setFocusedId(id);
+    if (id === null) {
+      pendingFocusIdRef.current = null;
+      return;
+    }
+    const element = elementsRef.current.get(id);
+    if (element) {
+      pendingFocusIdRef.current = null;
+      element.focus();
+    } else {
+      pendingFocusIdRef.current = id;
+    }
+  }, []);
+
+  // Returns true when the key was handled, so callers can skip their own handling
+  const handleNavigationKey = useCallback((event: React.KeyboardEvent): boolean => {
+    const count = orderedIds.length;
+    if (count === 0) return false;
+
+    const currentIndex = focusedId ? orderedIds.indexOf(focusedId) : -1;
+    let nextIndex: number;
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        nextIndex = (currentIndex + 1) % count;
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        nextIndex = currentIndex <= 0 ? count - 1 : currentIndex - 1;
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = count - 1;
+        break;
+      default:
+        return false;
+    }
+
+    event.preventDefault();
+    focusItem(orderedIds[nextIndex]);
+    return true;
+  }, [orderedIds, focusedId, focusItem]);
+
+  // The item that should carry tabIndex=0: the focused one, or the first in order as the entry point
+  const tabStopId = focusedId && orderedIds.includes(focusedId) ? focusedId : (orderedIds[0] ?? null);
+
+  return { focusedId, tabStopId, registerItem, focusItem, handleNavigationKey };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { matchesShortcut, normalizeShortcut, Shortcut } from '../core/shortcuts';
+import { ShortcutConflict, ShortcutRegistry } from '../core/shortcutRegistry';
+import { isEditableElement } from '../utils/dom';
+
+export interface ShortcutHandler {
+  shortcut: Shortcut;
+  target: string; // What the keys do, for conflict reports
+  onTrigger: () => void;
+}
+
+interface ShortcutsOptions {
+  enabled: boolean;
+  owner: string;
+  registry: ShortcutRegistry;
+  onConflict?: (conflicts: ShortcutConflict[]) => void; // Also called when a later registration clashes with these
+  // The window of the menu's document, e.g. an iframe it is portalled into. Keys pressed there work as well as
+  // those pressed in this window.
+  targetWindow?: Window | null;
+}
+
+// Page-wide keyboard shortcuts, registered with `registry` so clashes with other menus are reported. Shortcuts
+// without Ctrl, Alt or Meta stay out of the way while the user types into a field.
+export function useShortcuts(handlers: ShortcutHandler[], { enabled, owner, registry, onConflict, targetWindow }: ShortcutsOptions) {
+  const handlersRef = useRef(handlers);
+  const onConflictRef = useRef(onConflict);
+  useEffect(() => {
+    handlersRef.current = handlers;
+    onConflictRef.current = onConflict;
+  });
+
+  // Re-registers only when the key combinations or what they do change, not on every new handlers array
+  const signature = handlers.map(handler => `${normalizeShortcut(handler.shortcut)}\u0000${handler.target}`).join('\u0001');
+
+  useEffect(() => {
+    if (!enabled || !signature) return;
+    const bindings = handlersRef.current.map(handler => ({ shortcut: normalizeShortcut(handler.shortcut), owner, target: handler.target }));
+    const { unregister } = registry.register(bindings, conflicts => onConflictRef.current?.(conflicts));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      const handlerIndex = handlersRef.current.findIndex(({ shortcut }) => matchesShortcut(event, shortcut));
+      const handler = handlersRef.current[handlerIndex];
+      if (!handler || !registry.isActive(bindings[handlerIndex])) return;
+      const { ctrl, alt, meta } = handler.shortcut;
+      if (!ctrl && !alt && !meta && isEditableElement(event.target)) return;
+      event.preventDefault();
+      handler.onTrigger();
+    };
+
+    const listenedWindows = new Set([window, targetWindow ?? window]);
+    listenedWindows.forEach(listenedWindow => listenedWindow.addEventListener('keydown', handleKeyDown));
+    return () => {
+      listenedWindows.forEach(listenedWindow => listenedWindow.removeEventListener('keydown', handleKeyDown));
+      unregister();
+    };
+  }, [enabled, signature, owner, registry, targetWindow]);
+}
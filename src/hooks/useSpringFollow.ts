@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Point } from '../utils/pointer';
+import type { SpringOptions } from '../animation/animation';
+
+const MAX_FRAME_STEP = 1 / 30; // s; keeps the integration stable after the tab was in the background
+const REST_DISTANCE = 0.1; // px
+const REST_SPEED = 1; // px/s
+
+// Returns a point that chases `target` on a damped spring while `isFollowing`. Once following stops the spring
+// settles where it is heading, and from then on target changes (e.g. programmatic moves) are applied at once.
+export function useSpringFollow(target: Point, isFollowing: boolean, spring: Required<SpringOptions> | null): Point {
+  const { x: targetX, y: targetY } = target;
+  const [current, setCurrent] = useState<Point>(target);
+  const stateRef = useRef({ position: target, velocity: { x: 0, y: 0 } });
+  const targetRef = useRef(target);
+  const frameRef = useRef<number | null>(null);
+
+  // The running loop reads the latest spring settings, so a new options object doesn't restart it
+  const springRef = useRef(spring);
+  useEffect(() => {
+    springRef.current = spring;
+  });
+
+  const isEnabled = spring !== null;
+
+  useEffect(() => {
+    const nextTarget = { x: targetX, y: targetY };
+    targetRef.current = nextTarget;
+
+    const snapToTarget = () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+      stateRef.current = { position: nextTarget, velocity: { x: 0, y: 0 } };
+      setCurrent(prev => (prev.x === targetX && prev.y === targetY ? prev : nextTarget));
+    };
+
+    if (!isEnabled || (!isFollowing && frameRef.current === null)) {
+      snapToTarget();
+      return;
+    }
+    if (frameRef.current !== null) return; // The running loop picks up the new target
+
+    let lastTime = performance.now();
+    const step = (time: number) => {
+      const dt = Math.min(Math.max((time - lastTime) / 1000, 0), MAX_FRAME_STEP);
+      lastTime = time;
+      const { stiffness, damping, mass } = springRef.current ?? { stiffness: 1, damping: 1, mass: 1 };
+      const { position, velocity } = stateRef.current;
+      const goal = targetRef.current;
+
+      // Semi-implicit Euler: update the velocity first, then move with the new velocity
+      const velocityX = velocity.x + ((-stiffness * (position.x - goal.x) - damping * velocity.x) / mass) * dt;
+      const velocityY = velocity.y + ((-stiffness * (position.y - goal.y) - damping * velocity.y) / mass) * dt;
+      const nextPosition = { x: position.x + velocityX * dt, y: position.y + velocityY * dt };
+
+      const isAtRest = Math.hypot(nextPosition.x - goal.x, nextPosition.y - goal.y) < REST_DISTANCE
+        && Math.hypot(velocityX, velocityY) < REST_SPEED;
+      if (isAtRest) {
+        stateRef.current = { position: goal, velocity: { x: 0, y: 0 } };
+        frameRef.current = null;
+        setCurrent(goal);
+        return;
+      }
+      stateRef.current = { position: nextPosition, velocity: { x: velocityX, y: velocityY } };
+      setCurrent(nextPosition);
+      frameRef.current = requestAnimationFrame(step);
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [targetX, targetY, isFollowing, isEnabled]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  return isEnabled ? current : target;
+}
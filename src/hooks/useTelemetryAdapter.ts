@@ -0,0 +1,21 @@
+import { useState, useEffect, useRef } from 'react';
+import { createTelemetryAdapter, TelemetryAdapter, TelemetryOptions, TelemetrySink } from '../analytics/telemetry';
+import type { MenuTreeNode } from '../core/menuTree';
+
+// A telemetry adapter that lives as long as the component: the callbacks stay stable across renders, the latest
+// sink is always used, and whatever is still queued is sent on unmount. Options are read once.
+export function useTelemetryAdapter<Item extends MenuTreeNode<Item>>(
+  sink: TelemetrySink,
+  options?: TelemetryOptions,
+): TelemetryAdapter<Item> {
+  const sinkRef = useRef(sink);
+  useEffect(() => {
+    sinkRef.current = sink;
+  });
+
+  const [adapter] = useState(() => createTelemetryAdapter<Item>(events => sinkRef.current(events), options));
+
+  useEffect(() => adapter.flush, [adapter]);
+
+  return adapter;
+}
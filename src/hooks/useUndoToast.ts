@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface UndoToast<T> {
+  item: T;
+  message: string;
+  undo: () => void; // Runs the item's undo and dismisses the toast
+  dismiss: () => void;
+}
+
+// The offer to undo the last action, shown for `duration` ms. A newer action replaces it, so only the latest
+// can be undone.
+export function useUndoToast<T>(duration: number) {
+  const [toast, setToast] = useState<UndoToast<T> | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), []);
+
+  const dismiss = useCallback(() => {
+    clearTimeout(timeoutRef.current);
+    setToast(null);
+  }, []);
+
+  const showUndoToast = useCallback((item: T, message: string, undo: () => void) => {
+    clearTimeout(timeoutRef.current);
+    setToast({
+      item,
+      message,
+      undo: () => {
+        dismiss();
+        undo();
+      },
+      dismiss,
+    });
+    timeoutRef.current = setTimeout(dismiss, duration);
+  }, [duration, dismiss]);
+
+  return { toast, showUndoToast };
+}
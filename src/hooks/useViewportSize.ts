@@ -0,0 +1,21 @@
+import { useState } from 'react';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+
+// The inner size of `targetWindow` (this window by default), kept current on resize. Zero until mounted, so the
+// server render and hydration agree.
+export function useViewportSize(targetWindow?: Window | null) {
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+
+  useIsomorphicLayoutEffect(() => {
+    const resolvedWindow = targetWindow ?? window;
+    const handleResize = () => {
+      const { innerWidth: width, innerHeight: height } = resolvedWindow;
+      setViewportSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    };
+    handleResize();
+    resolvedWindow.addEventListener('resize', handleResize);
+    return () => resolvedWindow.removeEventListener('resize', handleResize);
+  }, [targetWindow]);
+
+  return viewportSize;
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { ManagedMenu, MenuManager } from '../core/menuManager';
+
+// How the provider reaches a RadialMenu for the input it routes; the callbacks always see the menu's latest props
+export interface RadialMenuInstance extends ManagedMenu {
+  contains: (eventPath: EventTarget[]) => boolean; // Takes the composed path, which reaches into shadow roots
+  getOwnerDocument: () => Document | null; // An iframe's document when the menu is rendered into one
+  closesOnOutsideClick: () => boolean;
+  onOutsideClick: () => void;
+  onKeyDown: (event: KeyboardEvent) => void; // Only called while the menu is open and in front
+}
+
+// Null outside a RadialMenuProvider, where every menu is on its own
+export const RadialMenuManagerContext = createContext<MenuManager<RadialMenuInstance> | null>(null);
+
+export function useRadialMenuManager(): MenuManager<RadialMenuInstance> | null {
+  return useContext(RadialMenuManagerContext);
+}
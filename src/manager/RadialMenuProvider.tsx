@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { createMenuManager, getOpenMenuIds } from '../core/menuManager';
+import { RadialMenuInstance, RadialMenuManagerContext } from './RadialMenuManagerContext';
+
+interface RadialMenuProviderProps {
+  singleOpen?: boolean; // Opening one menu closes the others; true by default
+  children: React.ReactNode;
+}
+
+// Coordinates the RadialMenus inside it: the open one comes to the front, rings keep clear of the other menus,
+// and outside clicks and Escape are handled here once for all of them instead of by each menu
+export const RadialMenuProvider: React.FC<RadialMenuProviderProps> = ({ singleOpen = true, children }) => {
+  const [manager] = useState(() => createMenuManager<RadialMenuInstance>({ singleOpen }));
+
+  useEffect(() => {
+    manager.setSingleOpen(singleOpen);
+  }, [manager, singleOpen]);
+
+  useEffect(() => {
+    const handlePressStart = (event: PointerEvent) => {
+      // The composed path reaches into shadow roots, where event.target is only the host
+      const eventPath = event.composedPath();
+      const { stack, openIds } = manager.getSnapshot();
+      // With several menus open, working in one of them doesn't dismiss the others
+      const isInAnyMenu = !manager.isSingleOpen() && stack.some(id => manager.getMenu(id)?.contains(eventPath));
+      openIds.forEach(id => {
+        const menu = manager.getMenu(id);
+        if (menu && !isInAnyMenu && !menu.contains(eventPath) && menu.closesOnOutsideClick()) menu.onOutsideClick();
+      });
+    };
+
+    // Only the frontmost open menu hears the keyboard, so Escape closes one menu at a time
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const [frontmostId] = getOpenMenuIds(manager.getSnapshot());
+      if (frontmostId) manager.getMenu(frontmostId)?.onKeyDown(event);
+    };
+
+    // Presses and keys in an iframe don't reach this document, so the documents of open menus rendered into
+    // iframes are listened to as well, for as long as one is open there. Capture phase, so targets that stop
+    // propagation still dismiss the menus.
+    const listenedDocuments = new Map<Document, () => void>();
+    const listenTo = (ownerDocument: Document) => {
+      const ownerWindow = ownerDocument.defaultView;
+      ownerDocument.addEventListener('pointerdown', handlePressStart, true);
+      ownerWindow?.addEventListener('keydown', handleKeyDown);
+      listenedDocuments.set(ownerDocument, () => {
+        ownerDocument.removeEventListener('pointerdown', handlePressStart, true);
+        ownerWindow?.removeEventListener('keydown', handleKeyDown);
+      });
+    };
+    const syncDocuments = () => {
+      const documents = new Set([document]);
+      manager.getSnapshot().openIds.forEach(id => {
+        const ownerDocument = manager.getMenu(id)?.getOwnerDocument();
+        if (ownerDocument) documents.add(ownerDocument);
+      });
+      listenedDocuments.forEach((stopListening, listenedDocument) => {
+        if (documents.has(listenedDocument)) return;
+        stopListening();
+        listenedDocuments.delete(listenedDocument);
+      });
+      documents.forEach(ownerDocument => {
+        if (!listenedDocuments.has(ownerDocument)) listenTo(ownerDocument);
+      });
+    };
+
+    syncDocuments();
+    const unsubscribe = manager.subscribe(syncDocuments);
+    return () => {
+      unsubscribe();
+      listenedDocuments.forEach(stopListening => stopListening());
+    };
+  }, [manager]);
+
+  return (
+    <RadialMenuManagerContext.Provider value={manager}>
+      {children}
+    </RadialMenuManagerContext.Provider>
+  );
+};
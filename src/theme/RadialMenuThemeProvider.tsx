@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { RadialMenuThemeContext, useRadialMenuTheme } from './ThemeContext';
+import { mergeTheme, RadialMenuThemeOverrides } from './theme';
+
+interface RadialMenuThemeProviderProps {
+  theme: RadialMenuThemeOverrides; // Merged over the theme of the closest provider above (or the default theme)
+  children: React.ReactNode;
+}
+
+export const RadialMenuThemeProvider: React.FC<RadialMenuThemeProviderProps> = ({ theme, children }) => {
+  const parentTheme = useRadialMenuTheme();
+  const mergedTheme = useMemo(() => mergeTheme(parentTheme, theme), [parentTheme, theme]);
+
+  return (
+    <RadialMenuThemeContext.Provider value={mergedTheme}>
+      {children}
+    </RadialMenuThemeContext.Provider>
+  );
+};
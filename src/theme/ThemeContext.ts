@@ -0,0 +1,8 @@
+import { createContext, useContext } from 'react';
+import { defaultTheme, RadialMenuTheme } from './theme';
+
+export const RadialMenuThemeContext = createContext<RadialMenuTheme>(defaultTheme);
+
+export function useRadialMenuTheme(): RadialMenuTheme {
+  return useContext(RadialMenuThemeContext);
+}
@@ -0,0 +1,219 @@
+import type { CSSProperties } from 'react';
+
+export interface RadialMenuTheme {
+  colors: {
+    triggerBackground: string;
+    triggerHoverBackground: string;
+    triggerForeground: string;
+    triggerFocusRing: string;
+    itemBackground: string;
+    itemHoverBackground: string;
+    itemActiveBackground: string; // An item whose submenu is open
+    itemForeground: string;
+    itemFocusRing: string;
+    itemParentRing: string; // Marks items that open a submenu
+    itemCheckedBackground: string; // Checked checkbox and radio items
+    itemErrorBackground: string; // Items whose async action failed
+    itemWarningBackground: string; // Items waiting to be confirmed, and the fill of a hold to confirm
+    badgeBackground: string;
+    badgeForeground: string;
+    labelBackground: string; // Breadcrumb and other text shown next to the ring
+    labelForeground: string;
+    handleBackground: string;
+    handleForeground: string;
+  };
+  shadows: {
+    trigger: string;
+    item: string;
+    handle: string;
+  };
+  radii: {
+    trigger: string;
+    item: string;
+  };
+  fonts: {
+    family: string;
+    labelSize: string;
+  };
+  transitions: {
+    duration: number; // ms
+    easing: string; // Used while opening
+    exitEasing: string; // Used while closing
+  };
+}
+
+export type RadialMenuThemeOverrides = {
+  [Section in keyof RadialMenuTheme]?: Partial<RadialMenuTheme[Section]>;
+};
+
+const SHADOW_LG = '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)';
+const SHADOW_XL = '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)';
+const SHADOW_SM = '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)';
+const SYSTEM_FONT_STACK = 'ui-sans-serif, system-ui, sans-serif';
+
+// The original indigo/sky look of the widget
+export const defaultTheme: RadialMenuTheme = {
+  colors: {
+    triggerBackground: '#4f46e5',
+    triggerHoverBackground: '#4338ca',
+    triggerForeground: '#ffffff',
+    triggerFocusRing: '#818cf8',
+    itemBackground: '#0ea5e9',
+    itemHoverBackground: '#0284c7',
+    itemActiveBackground: '#0369a1',
+    itemForeground: '#ffffff',
+    itemFocusRing: '#ffffff',
+    itemParentRing: 'rgb(255 255 255 / 0.6)',
+    itemCheckedBackground: '#0369a1',
+    itemErrorBackground: '#dc2626',
+    itemWarningBackground: '#d97706',
+    badgeBackground: '#ef4444',
+    badgeForeground: '#ffffff',
+    labelBackground: 'rgb(15 23 42 / 0.8)',
+    labelForeground: '#ffffff',
+    handleBackground: '#334155',
+    handleForeground: '#ffffff',
+  },
+  shadows: {
+    trigger: SHADOW_XL,
+    item: SHADOW_LG,
+    handle: SHADOW_SM,
+  },
+  radii: {
+    trigger: '9999px',
+    item: '9999px',
+  },
+  fonts: {
+    family: SYSTEM_FONT_STACK,
+    labelSize: '0.75rem',
+  },
+  transitions: {
+    duration: 300,
+    easing: 'cubic-bezier(0.175, 0.885, 0.32, 1.275)',
+    exitEasing: 'ease-out',
+  },
+};
+
+export const lightTheme: RadialMenuTheme = mergeTheme(defaultTheme, {
+  colors: {
+    triggerBackground: '#2563eb',
+    triggerHoverBackground: '#1d4ed8',
+    triggerForeground: '#ffffff',
+    triggerFocusRing: '#93c5fd',
+    itemBackground: '#ffffff',
+    itemHoverBackground: '#f1f5f9',
+    itemActiveBackground: '#e2e8f0',
+    itemForeground: '#0f172a',
+    itemFocusRing: '#2563eb',
+    itemParentRing: 'rgb(37 99 235 / 0.5)',
+    itemCheckedBackground: '#dbeafe',
+    itemErrorBackground: '#fee2e2',
+    itemWarningBackground: '#fef3c7',
+    badgeBackground: '#dc2626',
+    badgeForeground: '#ffffff',
+    labelBackground: 'rgb(255 255 255 / 0.9)',
+    labelForeground: '#0f172a',
+    handleBackground: '#e2e8f0',
+    handleForeground: '#0f172a',
+  },
+});
+
+export const darkTheme: RadialMenuTheme = mergeTheme(defaultTheme, {
+  colors: {
+    triggerBackground: '#1e293b',
+    triggerHoverBackground: '#334155',
+    triggerForeground: '#f8fafc',
+    triggerFocusRing: '#94a3b8',
+    itemBackground: '#334155',
+    itemHoverBackground: '#475569',
+    itemActiveBackground: '#1e293b',
+    itemForeground: '#f1f5f9',
+    itemFocusRing: '#f8fafc',
+    itemParentRing: 'rgb(248 250 252 / 0.4)',
+    itemCheckedBackground: '#1d4ed8',
+    itemErrorBackground: '#991b1b',
+    itemWarningBackground: '#b45309',
+    badgeBackground: '#f87171',
+    badgeForeground: '#0f172a',
+    labelBackground: 'rgb(15 23 42 / 0.9)',
+    labelForeground: '#f8fafc',
+    handleBackground: '#0f172a',
+    handleForeground: '#f8fafc',
+  },
+  shadows: {
+    trigger: '0 20px 25px -5px rgb(0 0 0 / 0.4), 0 8px 10px -6px rgb(0 0 0 / 0.4)',
+    item: '0 10px 15px -3px rgb(0 0 0 / 0.4), 0 4px 6px -4px rgb(0 0 0 / 0.4)',
+  },
+});
+
+export function mergeTheme(base: RadialMenuTheme, overrides?: RadialMenuThemeOverrides): RadialMenuTheme {
+  if (!overrides) return base;
+  return {
+    colors: { ...base.colors, ...overrides.colors },
+    shadows: { ...base.shadows, ...overrides.shadows },
+    radii: { ...base.radii, ...overrides.radii },
+    fonts: { ...base.fonts, ...overrides.fonts },
+    transitions: { ...base.transitions, ...overrides.transitions },
+  };
+}
+
+// Theme keys and the custom properties RadialMenu.css reads them from. Apps that don't use the theme object can
+// set these properties from their own stylesheets instead.
+const CSS_VARIABLE_NAMES: { [Section in keyof RadialMenuTheme]: Record<keyof RadialMenuTheme[Section], string> } = {
+  colors: {
+    triggerBackground: '--rm-trigger-bg',
+    triggerHoverBackground: '--rm-trigger-bg-hover',
+    triggerForeground: '--rm-trigger-fg',
+    triggerFocusRing: '--rm-trigger-focus-ring',
+    itemBackground: '--rm-item-bg',
+    itemHoverBackground: '--rm-item-bg-hover',
+    itemActiveBackground: '--rm-item-bg-active',
+    itemForeground: '--rm-item-fg',
+    itemFocusRing: '--rm-item-focus-ring',
+    itemParentRing: '--rm-item-parent-ring',
+    itemCheckedBackground: '--rm-item-bg-checked',
+    itemErrorBackground: '--rm-item-bg-error',
+    itemWarningBackground: '--rm-item-bg-warning',
+    badgeBackground: '--rm-badge-bg',
+    badgeForeground: '--rm-badge-fg',
+    labelBackground: '--rm-label-bg',
+    labelForeground: '--rm-label-fg',
+    handleBackground: '--rm-handle-bg',
+    handleForeground: '--rm-handle-fg',
+  },
+  shadows: {
+    trigger: '--rm-trigger-shadow',
+    item: '--rm-item-shadow',
+    handle: '--rm-handle-shadow',
+  },
+  radii: {
+    trigger: '--rm-trigger-radius',
+    item: '--rm-item-radius',
+  },
+  fonts: {
+    family: '--rm-font-family',
+    labelSize: '--rm-label-font-size',
+  },
+  transitions: {
+    duration: '--rm-duration',
+    easing: '--rm-easing',
+    exitEasing: '--rm-exit-easing',
+  },
+};
+
+// Emits only the keys present in `theme`, so it works for full themes and for per-item overrides alike
+export function themeToCssVariables(theme: RadialMenuThemeOverrides | undefined): CSSProperties {
+  const variables: Record<string, string> = {};
+  if (!theme) return variables;
+
+  for (const section of Object.keys(CSS_VARIABLE_NAMES) as (keyof RadialMenuTheme)[]) {
+    const values = theme[section] as Record<string, string | number | undefined> | undefined;
+    if (!values) continue;
+    const names = CSS_VARIABLE_NAMES[section] as Record<string, string>;
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined || !names[key]) continue;
+      variables[names[key]] = section === 'transitions' && key === 'duration' ? `${value}ms` : String(value);
+    }
+  }
+  return variables as CSSProperties;
+}
@@ -0,0 +1,7 @@
+// Fields the user types into, where plain keys must keep their meaning. nodeType and tagName rather than
+// instanceof, which fails for elements from another frame's realm.
+export function isEditableElement(target: EventTarget | null): boolean {
+  const element = target as Partial<HTMLElement> | null;
+  if (element?.nodeType !== 1) return false;
+  return !!element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName!);
+}
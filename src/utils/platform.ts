@@ -0,0 +1,4 @@
+// Apple keyboards put ⌘ where others put Ctrl, which decides what "Mod" in a shortcut means
+export function isApplePlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent);
+}
@@ -0,0 +1,15 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Angle of `point` around `center` in radians, normalized to [0, 2π) so it's comparable with `ItemPosition.angle`
+export function getAngleFromCenter(center: Point, point: Point): number {
+  const angle = Math.atan2(point.y - center.y, point.x - center.x);
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+}
+
+export function getAngularDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b) % (2 * Math.PI);
+  return diff > Math.PI ? 2 * Math.PI - diff : diff;
+}
@@ -0,0 +1,47 @@
+import type { Point } from './pointer';
+
+// Where a menu can render instead of inline: the document body (true), an element, a shadow root or the document
+// of a same-origin iframe
+export type PortalTarget = true | HTMLElement | ShadowRoot | Document;
+
+// nodeType rather than instanceof, which fails for nodes from another frame's realm
+const isDocument = (node: Node): node is Document => node.nodeType === 9;
+
+export function resolvePortalContainer(target: PortalTarget): Element | DocumentFragment {
+  if (target === true) return document.body;
+  return isDocument(target) ? target.body : target;
+}
+
+export function getOwnerDocument(node: Node): Document {
+  return isDocument(node) ? node : node.ownerDocument!;
+}
+
+// The focused element as seen from inside `node`'s shadow root or document, where document.activeElement would
+// only be the shadow host or the iframe
+export function getActiveElement(node: Node): Element | null {
+  const root = node.getRootNode() as Partial<DocumentOrShadowRoot>;
+  return root.activeElement ?? node.ownerDocument?.activeElement ?? null;
+}
+
+// Where `doc`'s viewport sits in the top-level viewport: the sum of the iframes it is nested in. Cross-origin
+// frames can't be measured and count as zero.
+function getViewportOffset(doc: Document): Point {
+  const offset = { x: 0, y: 0 };
+  let frame = doc.defaultView?.frameElement ?? null;
+  while (frame) {
+    const rect = frame.getBoundingClientRect();
+    offset.x += rect.left + frame.clientLeft;
+    offset.y += rect.top + frame.clientTop;
+    frame = frame.ownerDocument.defaultView?.frameElement ?? null;
+  }
+  return offset;
+}
+
+// Converts viewport coordinates of one document into those of another, e.g. a right-click on the page into the
+// iframe the menu is rendered in
+export function mapPointToDocument(point: Point, from: Document, to: Document): Point {
+  if (from === to) return point;
+  const fromOffset = getViewportOffset(from);
+  const toOffset = getViewportOffset(to);
+  return { x: point.x + fromOffset.x - toOffset.x, y: point.y + fromOffset.y - toOffset.y };
+}
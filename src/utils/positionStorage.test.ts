@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { loadPosition, savePosition, PositionStorage } from './positionStorage';
+
+const SIZE = 50;
+
+const createStorage = (): PositionStorage & { entries: Map<string, string> } => {
+  const entries = new Map<string, string>();
+  return { entries, getItem: key => entries.get(key) ?? null, setItem: (key, value) => { entries.set(key, value); } };
+};
+
+describe('position persistence', () => {
+  it('stores the position as fractions of the room to move in', () => {
+    const storage = createStorage();
+    savePosition(storage, 'menu', { x: 375, y: 110 }, SIZE, { left: 0, top: 0, width: 800, height: 600 });
+    expect(JSON.parse(storage.entries.get('menu')!)).toEqual({ x: 0.5, y: 0.2 });
+  });
+
+  it('restores the same spot relative to resized bounds', () => {
+    const storage = createStorage();
+    savePosition(storage, 'menu', { x: 750, y: 0 }, SIZE, { left: 0, top: 0, width: 800, height: 600 });
+    expect(loadPosition(storage, 'menu', SIZE, { left: 100, top: 0, width: 1050, height: 300 })).toEqual({ x: 1100, y: 0 });
+  });
+
+  it('ignores missing and corrupt entries', () => {
+    const storage = createStorage();
+    const bounds = { left: 0, top: 0, width: 800, height: 600 };
+    expect(loadPosition(storage, 'menu', SIZE, bounds)).toBeNull();
+    storage.setItem('menu', '{not json');
+    expect(loadPosition(storage, 'menu', SIZE, bounds)).toBeNull();
+    storage.setItem('menu', JSON.stringify({ x: 'left', y: 0 }));
+    expect(loadPosition(storage, 'menu', SIZE, bounds)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import type { Point } from './pointer';
+import type { LayoutBounds } from '../core/layout/safeArcs';
+
+// Anything with the Web Storage getItem/setItem pair: localStorage, sessionStorage or an app-provided adapter
+export type PositionStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+// Stored as fractions of the room the widget has to move in, so it lands in the same place in resized bounds
+interface StoredPosition {
+  x: number;
+  y: number;
+}
+
+export function getDefaultPositionStorage(): PositionStorage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null; // Access throws when storage is disabled, e.g. in some sandboxed iframes
+  }
+}
+
+const toFraction = (value: number, available: number) => (available > 0 ? Math.max(0, Math.min(value / available, 1)) : 0);
+
+export function loadPosition(storage: PositionStorage, key: string, elementSize: number, bounds: LayoutBounds): Point | null {
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Partial<StoredPosition>;
+    if (typeof stored.x !== 'number' || typeof stored.y !== 'number' || !isFinite(stored.x) || !isFinite(stored.y)) {
+      return null;
+    }
+    return {
+      x: (bounds.left ?? 0) + toFraction(stored.x, 1) * Math.max(bounds.width - elementSize, 0),
+      y: (bounds.top ?? 0) + toFraction(stored.y, 1) * Math.max(bounds.height - elementSize, 0),
+    };
+  } catch {
+    return null; // Corrupt entries fall back to the default position
+  }
+}
+
+export function savePosition(storage: PositionStorage, key: string, position: Point, elementSize: number, bounds: LayoutBounds) {
+  const stored: StoredPosition = {
+    x: toFraction(position.x - (bounds.left ?? 0), bounds.width - elementSize),
+    y: toFraction(position.y - (bounds.top ?? 0), bounds.height - elementSize),
+  };
+  try {
+    storage.setItem(key, JSON.stringify(stored));
+  } catch {
+    // Quota errors and disabled storage only cost us persistence
+  }
+}
@@ -0,0 +1,42 @@
+import { DEFAULT_MENU_PREFERENCES, MenuPreferences } from '../core/menuPreferences';
+
+// Same contract as PositionStorage: localStorage, sessionStorage or an adapter that syncs to the user's account
+export type PreferencesStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps whatever parts of a stored entry are well-formed, so one bad field doesn't wipe the rest
+export function loadMenuPreferences(storage: PreferencesStorage, key: string): MenuPreferences {
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return DEFAULT_MENU_PREFERENCES;
+    const stored: unknown = JSON.parse(raw);
+    if (!isObject(stored)) return DEFAULT_MENU_PREFERENCES;
+    return {
+      order: isObject(stored.order)
+        ? Object.fromEntries(Object.entries(stored.order).filter((entry): entry is [string, string[]] => isStringArray(entry[1])))
+        : {},
+      hidden: isStringArray(stored.hidden) ? stored.hidden : [],
+      pinned: isStringArray(stored.pinned) ? stored.pinned : [],
+      usage: isObject(stored.usage)
+        ? Object.fromEntries(Object.entries(stored.usage).filter((entry): entry is [string, number] => (
+          typeof entry[1] === 'number' && isFinite(entry[1]) && entry[1] > 0
+        )))
+        : {},
+    };
+  } catch {
+    return DEFAULT_MENU_PREFERENCES; // Corrupt entries fall back to the default arrangement
+  }
+}
+
+export function saveMenuPreferences(storage: PreferencesStorage, key: string, preferences: MenuPreferences) {
+  try {
+    storage.setItem(key, JSON.stringify(preferences));
+  } catch {
+    // Quota errors and disabled storage only cost us persistence
+  }
+}
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite'
+
+// Builds the <radial-menu> custom element on its own, without React: `npm run build:element`
+export default defineConfig({
+  build: {
+    outDir: 'dist/element',
+    lib: {
+      entry: 'src/elements/index.ts',
+      name: 'RadialMenuElement',
+      fileName: 'radial-menu',
+      formats: ['es', 'umd'],
+    },
+  },
+})